@@ -2,14 +2,17 @@ import * as matchers from "@testing-library/jest-dom/matchers";
 
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  act,
   cleanup,
   fireEvent,
   render,
   screen,
   waitFor,
+  within,
 } from "@testing-library/react";
 
 import App from "./App";
+import ChromeTabAdapter from "./core/ChromeTabAdapter";
 import userEvent from "@testing-library/user-event";
 
 expect.extend(matchers);
@@ -37,9 +40,38 @@ const mockChrome = {
         clearWindowLimitTooltip: "Clear window limit",
         retainAllWindowsLabel: "(Empty = retain all windows)",
         autoDeleteAriaLabel: "Auto-delete tabs for $DOMAIN$",
+        autoDeleteConditionAriaLabel: "Auto-delete condition for $DOMAIN$",
+        idleMinutesAriaLabel: "Idle minutes before auto-deleting $DOMAIN$ tabs",
+        discardAriaLabel: "Discard tabs for $DOMAIN$ to free memory",
+        discardConditionAriaLabel: "Discard condition for $DOMAIN$",
+        archiveSearchAriaLabel: "Search closed tabs",
+        restoreTabAriaLabel: "Restore $TITLE$",
+        restoreAllButton: "Restore all",
+        undoLastRunButton: "Undo last run",
+        nothingToUndoAlert: "There is no run to undo.",
+        previewButton: "Preview",
+        previewError: "Couldn't preview the next run.",
+        previewTitle: "Changes the next run would make",
+        previewToClose: "Tabs to close ($COUNT$)",
+        previewGroupsCreated: "Groups created ($COUNT$)",
+        previewTabCount: "$COUNT$ tabs",
+        previewReorderCount: "Tabs or groups to reorder: $COUNT$",
+        applyButton: "Apply",
+        cancelButton: "Cancel",
         splitByPathAriaLabel: "Split by url path segment index",
         clearPathIndexTooltip: "Clear url path index",
         removeRuleAriaLabel: "Remove rule for $DOMAIN$",
+        colorAriaLabel: "Group color for $DOMAIN$",
+        ignoredParamsAriaLabel:
+          "Query parameters ignored for duplicates on $DOMAIN$",
+        stripTrackingParamsLabel: "Ignore tracking parameters",
+        keepPinnedLabel: "Pinned",
+        skipDedupAriaLabel: "Allow duplicate tabs for $DOMAIN$",
+        dedupExemptPatternsLabel: "Never close duplicates of URLs matching",
+        moveCategoryUpAriaLabel: "Move $CATEGORY$ earlier",
+        reorderRuleAriaLabel: "Reorder $DOMAIN$",
+        priorityAriaLabel: "Priority for $DOMAIN$",
+        clearPriorityAriaLabel: "Clear priority for $DOMAIN$",
       };
       let message = messages[key] || key;
       if (placeholders) {
@@ -55,6 +87,7 @@ const mockChrome = {
   },
   runtime: {
     getManifest: vi.fn().mockReturnValue({ version: "1.0.0" }),
+    sendMessage: vi.fn(),
   },
   storage: {
     local: {
@@ -78,6 +111,7 @@ const mockStore = {
     grouping: { byWindow: false },
   }),
   setState: vi.fn().mockResolvedValue(undefined),
+  onChange: vi.fn(),
 };
 
 vi.mock("./utils/startSyncStore", () => ({
@@ -110,7 +144,7 @@ describe("App Component", () => {
       await screen.findByText("No domain rules configured yet."),
     ).toBeDefined();
     const noDomainsCell = screen.getByText("No domain rules configured yet.");
-    expect(noDomainsCell).toHaveAttribute("colspan", "5");
+    expect(noDomainsCell).toHaveAttribute("colspan", "10");
   });
 
   it("adds a new domain rule", async () => {
@@ -134,6 +168,48 @@ describe("App Component", () => {
     });
   });
 
+  it("adds a wildcard domain rule", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    const input = screen.getByPlaceholderText("example.com or www.example.com");
+    const addButton = screen.getByRole("button", { name: /add/i });
+
+    await user.type(input, "*.atlassian.net");
+    await user.click(addButton);
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rules: [expect.objectContaining({ domain: "*.atlassian.net" })],
+        }),
+      );
+    });
+  });
+
+  it("adds a URL pattern rule with a path", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    const input = screen.getByPlaceholderText("example.com or www.example.com");
+    const addButton = screen.getByRole("button", { name: /add/i });
+
+    await user.type(input, "docs.google.com/spreadsheets/*");
+    await user.click(addButton);
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rules: [
+            expect.objectContaining({
+              domain: "docs.google.com/spreadsheets/*",
+            }),
+          ],
+        }),
+      );
+    });
+  });
+
   it("does not add an invalid domain", async () => {
     const user = userEvent.setup();
     render(<App />);
@@ -244,6 +320,89 @@ describe("App Component", () => {
     });
   });
 
+  it("switches autoDelete to an idle condition", async () => {
+    mockStore.getState.mockResolvedValue({
+      rules: [{ id: "1", domain: "news.com", autoDelete: true }],
+      grouping: { byWindow: false },
+    });
+
+    render(<App />);
+
+    const condition = await screen.findByLabelText(
+      /auto-delete condition for news.com/i,
+    );
+    expect(condition).toBeEnabled();
+    fireEvent.change(condition, { target: { value: "idle" } });
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rules: [expect.objectContaining({ autoDelete: { idleMinutes: 30 } })],
+        }),
+      );
+    });
+  });
+
+  it("edits idle minutes and keeps grouping inputs enabled", async () => {
+    mockStore.getState.mockResolvedValue({
+      rules: [{ id: "1", domain: "news.com", autoDelete: { idleMinutes: 30 } }],
+      grouping: { byWindow: false },
+    });
+
+    render(<App />);
+
+    const minutes = await screen.findByLabelText(
+      /idle minutes before auto-deleting news.com/i,
+    );
+    expect(screen.getByLabelText(/group name/i)).toBeEnabled();
+    fireEvent.change(minutes, { target: { value: "90" } });
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rules: [expect.objectContaining({ autoDelete: { idleMinutes: 90 } })],
+        }),
+      );
+    });
+  });
+
+  it("enables discard and limits it to collapsed groups", async () => {
+    mockStore.getState.mockResolvedValue({
+      rules: [{ id: "1", domain: "docs.com" }],
+      grouping: { byWindow: false },
+    });
+
+    render(<App />);
+
+    const discard = await screen.findByLabelText(/discard tabs for docs.com/i);
+    const condition = screen.getByLabelText(/discard condition for docs.com/i);
+    expect(condition).toBeDisabled();
+    fireEvent.click(discard);
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rules: [expect.objectContaining({ discard: true })],
+        }),
+      );
+    });
+
+    await waitFor(() => expect(condition).toBeEnabled());
+    fireEvent.change(condition, { target: { value: "collapsed" } });
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rules: [
+            expect.objectContaining({
+              discard: { onlyCollapsedGroups: true },
+            }),
+          ],
+        }),
+      );
+    });
+  });
+
   it("updates splitByPath numeric input", async () => {
     const initialRules = [
       {
@@ -368,6 +527,532 @@ describe("App Component", () => {
     });
   });
 
+  it("updates the group color", async () => {
+    mockStore.getState.mockResolvedValue({
+      rules: [{ id: "1", domain: "google.com", autoDelete: false }],
+      grouping: { byWindow: false },
+    });
+
+    const user = userEvent.setup();
+    render(<App />);
+
+    const colorSelect = await screen.findByLabelText(
+      /group color for google.com/i,
+    );
+    await user.selectOptions(colorSelect, "purple");
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          rules: [expect.objectContaining({ id: "1", color: "purple" })],
+        }),
+      );
+    });
+  });
+
+  it("commits ignored query params as a list on blur", async () => {
+    mockStore.getState.mockResolvedValue({
+      rules: [{ id: "1", domain: "shop.com", autoDelete: false }],
+      grouping: { byWindow: false },
+    });
+
+    const user = userEvent.setup();
+    render(<App />);
+
+    const paramsInput = await screen.findByLabelText(
+      /query parameters ignored for duplicates on shop.com/i,
+    );
+    await user.type(paramsInput, "sort, page,");
+    expect(mockStore.setState).not.toHaveBeenCalled();
+    await user.tab();
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          rules: [
+            expect.objectContaining({
+              id: "1",
+              ignoredQueryParams: ["sort", "page"],
+            }),
+          ],
+        }),
+      );
+    });
+  });
+
+  it("toggles a URL normalization step", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByLabelText(/ignore tracking parameters/i));
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          grouping: expect.objectContaining({
+            urlNormalization: { stripTrackingParams: true },
+          }),
+        }),
+      );
+    });
+  });
+
+  it("stores dedup keep preferences in priority order", async () => {
+    mockStore.getState.mockResolvedValue({
+      rules: [],
+      grouping: { byWindow: false, dedupKeepPolicy: ["recent"] },
+    });
+
+    const user = userEvent.setup();
+    render(<App />);
+
+    const pinned = await screen.findByLabelText("Pinned");
+    await waitFor(() => expect(pinned).not.toBeChecked());
+    await user.click(pinned);
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          grouping: expect.objectContaining({
+            dedupKeepPolicy: ["pinned", "recent"],
+          }),
+        }),
+      );
+    });
+  });
+
+  it("configures the phases of an idle run", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    const idleRun = await screen.findByRole("group", {
+      name: "idleRunLabel",
+    });
+    await user.click(within(idleRun).getByLabelText("idleRunLabel"));
+    await user.click(within(idleRun).getByLabelText("popupRunGroup"));
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          grouping: expect.objectContaining({
+            idleRun: {
+              enabled: true,
+              minutes: 10,
+              phases: ["dedup", "autoDelete", "consolidate", "group"],
+            },
+          }),
+        }),
+      );
+    });
+  });
+
+  it("selects the group rename policy", async () => {
+    render(<App />);
+
+    fireEvent.change(await screen.findByLabelText("groupRenamePolicyLabel"), {
+      target: { value: "revert" },
+    });
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          grouping: expect.objectContaining({ groupRenamePolicy: "revert" }),
+        }),
+      );
+    });
+  });
+
+  it("selects how surplus blank pages are closed", async () => {
+    mockStore.getState.mockResolvedValue({
+      rules: [],
+      grouping: { byWindow: false, internalPagePolicy: "closeSurplusNewTabs" },
+    });
+    render(<App />);
+
+    // The policy's implied value shows once the stored settings have loaded
+    const select = await screen.findByLabelText("blankTabCleanupLabel");
+    await waitFor(() => expect(select).toHaveValue("keepOne"));
+    fireEvent.change(select, { target: { value: "keepActive" } });
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          grouping: expect.objectContaining({ blankTabCleanup: "keepActive" }),
+        }),
+      );
+    });
+  });
+
+  it("sets a sort strategy for one group type", async () => {
+    render(<App />);
+
+    fireEvent.change(await screen.findByLabelText("tabCategoryManual"), {
+      target: { value: "size" },
+    });
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          grouping: expect.objectContaining({
+            sortStrategy: { manual: "size" },
+          }),
+        }),
+      );
+    });
+  });
+
+  it("disables sort settings in the stable layout", async () => {
+    mockStore.getState.mockResolvedValue({
+      rules: [],
+      grouping: { byWindow: false, layoutMode: "stable" },
+    });
+    render(<App />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("layoutModeLabel")).toHaveValue("stable");
+    });
+    expect(screen.getByLabelText("sortStrategyDefaultLabel")).toBeDisabled();
+    expect(screen.getByLabelText("tabCategoryManual")).toBeDisabled();
+  });
+
+  it("moves a category earlier in the tab strip", async () => {
+    render(<App />);
+
+    fireEvent.click(
+      await screen.findByLabelText("Move tabCategoryManual earlier"),
+    );
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          grouping: expect.objectContaining({
+            categoryOrder: ["internal", "manual", "managed", "solo"],
+          }),
+        }),
+      );
+    });
+  });
+
+  describe("rule priority", () => {
+    const dragOnto = async (domain: string, target: string) => {
+      const data = new Map<string, string>();
+      const dataTransfer = {
+        get types() {
+          return [...data.keys()];
+        },
+        setData: (type: string, value: string) => data.set(type, value),
+        getData: (type: string) => data.get(type) ?? "",
+      };
+      fireEvent.dragStart(await screen.findByLabelText(`Reorder ${domain}`), {
+        dataTransfer,
+      });
+      fireEvent.drop(screen.getByText(target).closest("tr")!, {
+        dataTransfer,
+      });
+    };
+
+    it("gives a rule dragged to the top the first priority", async () => {
+      mockStore.getState.mockResolvedValue({
+        rules: [
+          { id: "1", domain: "a.com" },
+          { id: "2", domain: "jira.com" },
+        ],
+        grouping: { byWindow: false },
+      });
+      render(<App />);
+
+      await dragOnto("jira.com", "a.com");
+
+      await waitFor(() => {
+        expect(mockStore.setState).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            rules: [
+              expect.objectContaining({ domain: "jira.com", priority: 1 }),
+              expect.not.objectContaining({ priority: expect.anything() }),
+            ],
+          }),
+        );
+      });
+    });
+
+    it("only changes the dragged rule when there is room", async () => {
+      mockStore.getState.mockResolvedValue({
+        rules: [
+          { id: "1", domain: "a.com", priority: 2 },
+          { id: "2", domain: "b.com", priority: 5 },
+          { id: "3", domain: "c.com" },
+        ],
+        grouping: { byWindow: false },
+      });
+      render(<App />);
+
+      await dragOnto("c.com", "b.com");
+
+      await waitFor(() => {
+        expect(mockStore.setState).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            rules: [
+              expect.objectContaining({ domain: "a.com", priority: 2 }),
+              expect.objectContaining({ domain: "c.com", priority: 4 }),
+              expect.objectContaining({ domain: "b.com", priority: 5 }),
+            ],
+          }),
+        );
+      });
+    });
+
+    it("shifts lower rules down when the slot is taken", async () => {
+      mockStore.getState.mockResolvedValue({
+        rules: [
+          { id: "1", domain: "a.com", priority: 1 },
+          { id: "2", domain: "b.com", priority: 2 },
+          { id: "3", domain: "c.com" },
+        ],
+        grouping: { byWindow: false },
+      });
+      render(<App />);
+
+      await dragOnto("c.com", "b.com");
+
+      await waitFor(() => {
+        expect(mockStore.setState).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            rules: [
+              expect.objectContaining({ domain: "a.com", priority: 1 }),
+              expect.objectContaining({ domain: "c.com", priority: 2 }),
+              expect.objectContaining({ domain: "b.com", priority: 3 }),
+            ],
+          }),
+        );
+      });
+    });
+
+    it("edits and clears a rule's priority", async () => {
+      mockStore.getState.mockResolvedValue({
+        rules: [{ id: "1", domain: "a.com", priority: 3 }],
+        grouping: { byWindow: false },
+      });
+      render(<App />);
+
+      const input = await screen.findByLabelText("Priority for a.com");
+      await waitFor(() => expect(input).toHaveValue(3));
+      fireEvent.change(input, { target: { value: "7" } });
+      await waitFor(() => {
+        expect(mockStore.setState).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            rules: [expect.objectContaining({ priority: 7 })],
+          }),
+        );
+      });
+
+      fireEvent.click(screen.getByLabelText("Clear priority for a.com"));
+      await waitFor(() => {
+        expect(mockStore.setState).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            rules: [expect.objectContaining({ priority: null })],
+          }),
+        );
+      });
+    });
+  });
+
+  it("toggles skipDedup for a rule", async () => {
+    mockStore.getState.mockResolvedValue({
+      rules: [{ id: "1", domain: "mail.google.com", autoDelete: false }],
+      grouping: { byWindow: false },
+    });
+
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(
+      await screen.findByLabelText(/allow duplicate tabs for mail.google.com/i),
+    );
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          rules: [expect.objectContaining({ id: "1", skipDedup: true })],
+        }),
+      );
+    });
+  });
+
+  it("stores dedup exempt patterns one per line without schemes", async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    const patterns = screen.getByLabelText(
+      /never close duplicates of urls matching/i,
+    );
+    await user.type(
+      patterns,
+      "https://mail.google.com{enter}*.grafana.net/d/*",
+    );
+    await user.tab();
+
+    await waitFor(() => {
+      expect(mockStore.setState).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          grouping: expect.objectContaining({
+            dedupExemptPatterns: ["mail.google.com", "*.grafana.net/d/*"],
+          }),
+        }),
+      );
+    });
+  });
+
+  it("shows dedup exempt patterns loaded from the store", async () => {
+    mockStore.getState.mockResolvedValue({
+      rules: [],
+      grouping: {
+        byWindow: false,
+        dedupExemptPatterns: ["mail.google.com", "*.grafana.net/d/*"],
+      },
+    });
+
+    render(<App />);
+
+    const patterns = screen.getByLabelText(
+      /never close duplicates of urls matching/i,
+    );
+    await waitFor(() =>
+      expect(patterns).toHaveValue("mail.google.com\n*.grafana.net/d/*"),
+    );
+  });
+
+  it("follows rules added while the page is open", async () => {
+    render(<App />);
+    await waitFor(() => expect(mockStore.onChange).toHaveBeenCalled());
+
+    const onChange = mockStore.onChange.mock.calls[0][0];
+    await act(async () =>
+      onChange({
+        rules: [{ id: "r1", domain: "github.com", autoDelete: false }],
+        grouping: { byWindow: false },
+      }),
+    );
+    expect(await screen.findByText("github.com")).toBeDefined();
+  });
+
+  it("searches the archive and restores tabs", async () => {
+    const archive = [
+      {
+        id: "1-1",
+        url: "https://docs.com/a",
+        title: "Design doc",
+        groupTitle: "Docs",
+        windowId: 1,
+        closedAt: 1,
+      },
+      {
+        id: "1-2",
+        url: "https://news.com/b",
+        title: "Headlines",
+        windowId: 1,
+        closedAt: 1,
+      },
+    ];
+    mockChrome.storage.local.get.mockResolvedValue({ archive });
+    const restore = vi
+      .spyOn(ChromeTabAdapter.prototype, "restoreArchivedTabs")
+      .mockResolvedValue();
+
+    render(<App />);
+
+    fireEvent.click(await screen.findByLabelText(/restore headlines/i));
+    expect(restore).toHaveBeenLastCalledWith([archive[1]]);
+
+    fireEvent.change(screen.getByLabelText(/search closed tabs/i), {
+      target: { value: "docs" },
+    });
+    expect(screen.queryByText("Headlines")).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: /restore all/i }));
+    expect(restore).toHaveBeenLastCalledWith([archive[0]]);
+
+    restore.mockRestore();
+    mockChrome.storage.local.get.mockResolvedValue({});
+  });
+
+  it("asks the background to undo the last run", async () => {
+    const alertSpy = vi.spyOn(window, "alert").mockImplementation(() => {});
+    mockChrome.runtime.sendMessage.mockResolvedValueOnce(true);
+
+    render(<App />);
+
+    const undo = screen.getByRole("button", { name: /undo last run/i });
+    fireEvent.click(undo);
+    await waitFor(() =>
+      expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: "undoLastRun",
+      }),
+    );
+    expect(alertSpy).not.toHaveBeenCalled();
+
+    mockChrome.runtime.sendMessage.mockResolvedValueOnce(false);
+    fireEvent.click(undo);
+    await waitFor(() =>
+      expect(alertSpy).toHaveBeenCalledWith("There is no run to undo."),
+    );
+    alertSpy.mockRestore();
+  });
+
+  it("previews a run and applies or cancels it", async () => {
+    const preview = {
+      toClose: [{ id: 5, title: "Dup page", url: "https://a.com/1" }],
+      toDiscard: [],
+      windowMoves: [],
+      groupsCreated: [{ title: "a.com", tabCount: 2 }],
+      groupsRenamed: [],
+      groupsDissolved: [],
+      reorderCount: 3,
+    };
+    mockChrome.runtime.sendMessage.mockResolvedValue(preview);
+
+    render(<App />);
+
+    fireEvent.click(screen.getByRole("button", { name: /preview/i }));
+    expect(await screen.findByText("Tabs to close (1)")).toBeInTheDocument();
+    expect(screen.getByText("Dup page")).toBeInTheDocument();
+    expect(screen.getByText("a.com (2 tabs)")).toBeInTheDocument();
+    expect(
+      screen.getByText("Tabs or groups to reorder: 3"),
+    ).toBeInTheDocument();
+    expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({
+      type: "preview",
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: /cancel/i }));
+    expect(screen.queryByText("Dup page")).not.toBeInTheDocument();
+    expect(mockChrome.runtime.sendMessage).not.toHaveBeenCalledWith({
+      type: "execute",
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: /preview/i }));
+    fireEvent.click(await screen.findByRole("button", { name: /apply/i }));
+    await waitFor(() =>
+      expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: "execute",
+      }),
+    );
+    expect(screen.queryByText("Dup page")).not.toBeInTheDocument();
+    mockChrome.runtime.sendMessage.mockReset();
+  });
+
+  it("shows an error when the preview fails", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    mockChrome.runtime.sendMessage.mockResolvedValueOnce(null);
+
+    render(<App />);
+
+    fireEvent.click(screen.getByRole("button", { name: /preview/i }));
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Couldn't preview the next run.",
+    );
+    expect(screen.queryByRole("button", { name: /apply/i })).toBeNull();
+    errorSpy.mockRestore();
+  });
+
   it("disables inputs when autoDelete is enabled", async () => {
     const initialRules = [
       {
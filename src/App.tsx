@@ -1,13 +1,52 @@
 import {
+  ARCHIVE_STORAGE_KEY,
+  ArchivedTab,
+  BLANK_TAB_CLEANUP_MODES,
+  BlankTabCleanup,
+  DEDUP_KEEP_PREFERENCES,
+  DEFAULT_DEDUP_KEEP_POLICY,
+  DEFAULT_RUN_TRIGGERS,
+  DEFAULT_URL_NORMALIZATION,
+  DedupKeepPreference,
+  GROUP_COLORS,
+  GROUP_RENAME_POLICIES,
+  GroupColor,
+  GroupRenamePolicy,
   GroupingConfig,
+  INTERNAL_PAGE_POLICIES,
+  InternalPagePolicy,
+  LAYOUT_MODES,
+  LayoutMode,
+  RUN_PHASES,
   Rule,
+  RunPhase,
+  RunPreview,
+  RunTrigger,
+  RunTriggerName,
+  RuntimeMessage,
+  SORT_STRATEGIES,
+  SortStrategy,
   SyncStoreState,
+  TAB_CATEGORIES,
+  TabCategory,
+  TabCondition,
+  UrlNormalizationConfig,
   validateGroupingConfig,
   validateRule,
 } from "@/types";
-import { PlusIcon, TrashIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  ArrowUturnLeftIcon,
+  Bars3Icon,
+  EyeIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 
+import ChromeTabAdapter from "./core/ChromeTabAdapter";
 import startSyncStore from "./utils/startSyncStore";
 
 // FIX: normalize groupName "" → undefined before persisting to avoid empty string group keys
@@ -15,6 +54,10 @@ function normalizeRule(rule: Rule): Rule {
   return {
     ...rule,
     groupName: rule.groupName || undefined,
+    color: rule.color || undefined,
+    ignoredQueryParams: rule.ignoredQueryParams?.length
+      ? rule.ignoredQueryParams
+      : undefined,
   };
 }
 
@@ -25,23 +68,15 @@ function useSyncStore() {
       byWindow: false,
       ungroupSingleTab: false,
       sortManualGroupTabs: false,
+      autoMode: false,
+      urlNormalization: DEFAULT_URL_NORMALIZATION,
+      dedupKeepPolicy: DEFAULT_DEDUP_KEEP_POLICY,
     },
   });
   const [store, setStore] = useState<any>(null);
 
   useEffect(() => {
-    const init = async () => {
-      const s = await startSyncStore({
-        rules: [],
-        grouping: {
-          byWindow: false,
-          numWindowsToKeep: 2,
-          ungroupSingleTab: false,
-          sortManualGroupTabs: false,
-        },
-      });
-      setStore(s);
-      const data = await s.getState();
+    const load = (data: SyncStoreState) => {
       const validRules = (data.rules || []).filter(validateRule);
       const validGrouping = validateGroupingConfig(data.grouping)
         ? data.grouping
@@ -50,6 +85,9 @@ function useSyncStore() {
             numWindowsToKeep: 2,
             ungroupSingleTab: false,
             sortManualGroupTabs: false,
+            autoMode: false,
+            urlNormalization: DEFAULT_URL_NORMALIZATION,
+            dedupKeepPolicy: DEFAULT_DEDUP_KEEP_POLICY,
           };
 
       setStateInternal({
@@ -57,6 +95,25 @@ function useSyncStore() {
         grouping: validGrouping,
       });
     };
+    const init = async () => {
+      const s = await startSyncStore({
+        rules: [],
+        grouping: {
+          byWindow: false,
+          numWindowsToKeep: 2,
+          ungroupSingleTab: false,
+          sortManualGroupTabs: false,
+          autoMode: false,
+          urlNormalization: DEFAULT_URL_NORMALIZATION,
+          dedupKeepPolicy: DEFAULT_DEDUP_KEEP_POLICY,
+        },
+      });
+      setStore(s);
+      // Follow writes from elsewhere (context menus, rename offers), so the
+      // page's next save doesn't overwrite them with a stale copy
+      s.onChange((data: SyncStoreState) => load(data));
+      load(await s.getState());
+    };
     init();
   }, []);
 
@@ -91,6 +148,36 @@ function useSyncStore() {
   };
 }
 
+const tabAdapter = new ChromeTabAdapter();
+
+function useArchive() {
+  const [archive, setArchive] = useState<ArchivedTab[]>([]);
+
+  useEffect(() => {
+    tabAdapter.getArchive().then(setArchive);
+    // Cleanup runs in the background; follow its writes to the archive
+    const handler = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      area: string,
+    ) => {
+      if (area === "local" && changes[ARCHIVE_STORAGE_KEY]) {
+        setArchive(
+          (changes[ARCHIVE_STORAGE_KEY].newValue as ArchivedTab[]) || [],
+        );
+      }
+    };
+    chrome.storage.onChanged.addListener(handler);
+    return () => chrome.storage.onChanged.removeListener(handler);
+  }, []);
+
+  const restore = useCallback(
+    (entries: ArchivedTab[]) => tabAdapter.restoreArchivedTabs(entries),
+    [],
+  );
+
+  return { archive, restore };
+}
+
 const isValidInput = (val: string): boolean => {
   const trimmed = val.trim();
   if (!trimmed || trimmed.includes(" ")) return false;
@@ -139,6 +226,127 @@ const GroupNameInput = React.memo(
   ),
 );
 
+const colorLabel = (color: GroupColor): string =>
+  chrome.i18n.getMessage(`color${color[0].toUpperCase()}${color.slice(1)}`);
+
+const GroupColorSelect = React.memo(
+  ({
+    value,
+    domain,
+    onChange,
+    disabled,
+  }: {
+    value: GroupColor | null | undefined;
+    domain: string;
+    onChange: (val: GroupColor | null) => void;
+    disabled?: boolean;
+  }) => (
+    <select
+      value={value || ""}
+      disabled={disabled}
+      onChange={(e) => onChange((e.target.value as GroupColor) || null)}
+      className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-500"
+      aria-label={chrome.i18n.getMessage("colorAriaLabel", [domain])}
+    >
+      <option value="">{chrome.i18n.getMessage("colorAuto")}</option>
+      {GROUP_COLORS.map((color) => (
+        <option key={color} value={color}>
+          {colorLabel(color)}
+        </option>
+      ))}
+    </select>
+  ),
+);
+
+const DEFAULT_IDLE_MINUTES = 30;
+
+type ConditionMode = "always" | "idle" | "inactive" | "collapsed";
+
+type RuleCondition = boolean | TabCondition | null | undefined;
+
+function conditionMode(value: RuleCondition): ConditionMode {
+  if (typeof value !== "object" || value === null) return "always";
+  if (value.idleMinutes) return "idle";
+  if (value.onlyCollapsedGroups) return "collapsed";
+  return value.skipActiveOrAudible ? "inactive" : "always";
+}
+
+const CONDITION_MODES: Record<
+  ConditionMode,
+  { labelKey: string; toCondition: (minutes: number) => true | TabCondition }
+> = {
+  always: { labelKey: "conditionAlways", toCondition: () => true },
+  idle: {
+    labelKey: "conditionWhenIdle",
+    toCondition: (minutes) => ({ idleMinutes: minutes }),
+  },
+  inactive: {
+    labelKey: "conditionWhenInactive",
+    toCondition: () => ({ skipActiveOrAudible: true }),
+  },
+  collapsed: {
+    labelKey: "conditionInCollapsedGroups",
+    toCondition: () => ({ onlyCollapsedGroups: true }),
+  },
+};
+
+const RuleConditionSelect = React.memo(
+  ({
+    value,
+    modes,
+    ariaLabel,
+    idleAriaLabel,
+    onChange,
+  }: {
+    value: RuleCondition;
+    modes: ConditionMode[];
+    ariaLabel: string;
+    idleAriaLabel: string;
+    onChange: (val: true | TabCondition) => void;
+  }) => {
+    const mode = conditionMode(value);
+    const minutes =
+      (typeof value === "object" && value?.idleMinutes) || DEFAULT_IDLE_MINUTES;
+
+    return (
+      <div className="flex items-center gap-1 mt-1">
+        <select
+          value={mode}
+          disabled={!value}
+          onChange={(e) =>
+            onChange(
+              CONDITION_MODES[e.target.value as ConditionMode].toCondition(
+                minutes,
+              ),
+            )
+          }
+          className="px-1 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-500"
+          aria-label={ariaLabel}
+        >
+          {modes.map((m) => (
+            <option key={m} value={m}>
+              {chrome.i18n.getMessage(CONDITION_MODES[m].labelKey)}
+            </option>
+          ))}
+        </select>
+        {mode === "idle" && (
+          <input
+            type="number"
+            min="1"
+            value={minutes}
+            onChange={(e) => {
+              const val = parseInt(e.target.value, 10);
+              if (val > 0) onChange({ idleMinutes: val });
+            }}
+            className="w-14 px-1 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={idleAriaLabel}
+          />
+        )}
+      </div>
+    );
+  },
+);
+
 const AddDomainForm = ({ onAdd }: { onAdd: (domain: string) => void }) => {
   const [input, setInput] = useState("");
 
@@ -178,6 +386,20 @@ const AddDomainForm = ({ onAdd }: { onAdd: (domain: string) => void }) => {
   );
 };
 
+const RENAME_POLICY_LABELS: Record<GroupRenamePolicy, string> = {
+  protect: "renamePolicyProtect",
+  revert: "renamePolicyRevert",
+  updateRule: "renamePolicyUpdateRule",
+};
+
+const INTERNAL_PAGE_POLICY_LABELS: Record<InternalPagePolicy, string> = {
+  front: "internalPagePolicyFront",
+  end: "internalPagePolicyEnd",
+  inPlace: "internalPagePolicyInPlace",
+  group: "internalPagePolicyGroup",
+  closeSurplusNewTabs: "internalPagePolicyCloseSurplusNewTabs",
+};
+
 const GroupingSettings = ({
   config,
   onChange,
@@ -226,6 +448,68 @@ const GroupingSettings = ({
           </span>
         </label>
       </div>
+      <div className="flex items-center gap-4 border-b border-gray-200 pb-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!config.autoMode}
+            onChange={(e) =>
+              onChange({
+                ...config,
+                autoMode: e.target.checked,
+              })
+            }
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+          />
+          <span className="text-sm text-gray-700">
+            {chrome.i18n.getMessage("autoModeLabel")}
+          </span>
+        </label>
+      </div>
+      <div className="flex items-center gap-2 border-b border-gray-200 pb-4">
+        <label htmlFor="group-rename-policy" className="text-sm text-gray-700">
+          {chrome.i18n.getMessage("groupRenamePolicyLabel")}
+        </label>
+        <select
+          id="group-rename-policy"
+          value={config.groupRenamePolicy ?? "protect"}
+          onChange={(e) =>
+            onChange({
+              ...config,
+              groupRenamePolicy: e.target.value as GroupRenamePolicy,
+            })
+          }
+          className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {GROUP_RENAME_POLICIES.map((policy) => (
+            <option key={policy} value={policy}>
+              {chrome.i18n.getMessage(RENAME_POLICY_LABELS[policy])}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-2 border-b border-gray-200 pb-4">
+        <label htmlFor="internal-page-policy" className="text-sm text-gray-700">
+          {chrome.i18n.getMessage("internalPagePolicyLabel")}
+        </label>
+        <select
+          id="internal-page-policy"
+          value={config.internalPagePolicy ?? "front"}
+          onChange={(e) =>
+            onChange({
+              ...config,
+              internalPagePolicy: e.target.value as InternalPagePolicy,
+            })
+          }
+          className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {INTERNAL_PAGE_POLICIES.map((policy) => (
+            <option key={policy} value={policy}>
+              {chrome.i18n.getMessage(INTERNAL_PAGE_POLICY_LABELS[policy])}
+            </option>
+          ))}
+        </select>
+      </div>
       <div className="flex items-center gap-4">
         <label className="flex items-center gap-2 cursor-pointer">
           <input
@@ -296,29 +580,607 @@ const GroupingSettings = ({
         </div>
       )}
     </div>
+    <label className="block text-sm font-medium text-gray-700 mt-6 mb-2">
+      {chrome.i18n.getMessage("protectedGroupsLabel")}
+    </label>
+    <DelimitedListInput
+      multiline
+      value={config.protectedGroupTitles}
+      onChange={(titles) =>
+        onChange({ ...config, protectedGroupTitles: titles })
+      }
+      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      placeholder={chrome.i18n.getMessage("protectedGroupsPlaceholder")}
+      ariaLabel={chrome.i18n.getMessage("protectedGroupsLabel")}
+    />
   </section>
 );
 
+// Keeps the raw text locally so separators can be typed; the parsed list is committed on blur
+const DelimitedListInput = ({
+  value,
+  onChange,
+  multiline,
+  className,
+  placeholder,
+  ariaLabel,
+}: {
+  value: string[] | null | undefined;
+  onChange: (val: string[] | null) => void;
+  multiline?: boolean;
+  className: string;
+  placeholder: string;
+  ariaLabel: string;
+}) => {
+  const joined = (value || []).join(multiline ? "\n" : ", ");
+  const [text, setText] = useState(joined);
+  const [prevJoined, setPrevJoined] = useState(joined);
+  // Pick up values loaded or changed outside this input (e.g. the initial store read)
+  if (joined !== prevJoined) {
+    setPrevJoined(joined);
+    setText(joined);
+  }
+  const commit = () => {
+    const items = text
+      .split(multiline ? "\n" : ",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+    onChange(items.length > 0 ? items : null);
+  };
+  const props = {
+    value: text,
+    onBlur: commit,
+    className,
+    placeholder,
+    "aria-label": ariaLabel,
+  };
+
+  return multiline ? (
+    <textarea {...props} rows={3} onChange={(e) => setText(e.target.value)} />
+  ) : (
+    <input {...props} type="text" onChange={(e) => setText(e.target.value)} />
+  );
+};
+
+const URL_NORMALIZATION_OPTIONS: {
+  flag: keyof UrlNormalizationConfig;
+  labelKey: string;
+}[] = [
+  { flag: "stripTrackingParams", labelKey: "stripTrackingParamsLabel" },
+  { flag: "ignoreFragment", labelKey: "ignoreFragmentLabel" },
+  { flag: "ignoreTrailingSlash", labelKey: "ignoreTrailingSlashLabel" },
+  { flag: "foldScheme", labelKey: "foldSchemeLabel" },
+  { flag: "foldWww", labelKey: "foldWwwLabel" },
+];
+
+const KEEP_PREFERENCE_LABELS: Record<DedupKeepPreference, string> = {
+  active: "keepActiveLabel",
+  pinned: "keepPinnedLabel",
+  protectedGroup: "keepProtectedGroupLabel",
+  activeWindow: "keepActiveWindowLabel",
+  recent: "keepRecentLabel",
+  oldest: "keepOldestLabel",
+};
+
+const BLANK_TAB_CLEANUP_LABELS: Record<BlankTabCleanup, string> = {
+  off: "blankTabCleanupOff",
+  keepOne: "blankTabCleanupKeepOne",
+  keepActive: "blankTabCleanupKeepActive",
+};
+
+const SORT_STRATEGY_LABELS: Record<SortStrategy, string> = {
+  title: "sortStrategyTitle",
+  url: "sortStrategyUrl",
+  lastAccessed: "sortStrategyLastAccessed",
+  creation: "sortStrategyCreation",
+  size: "sortStrategySize",
+  preserve: "sortStrategyPreserve",
+};
+
+const TAB_CATEGORY_LABELS: Record<TabCategory, string> = {
+  internal: "tabCategoryInternal",
+  managed: "tabCategoryManaged",
+  manual: "tabCategoryManual",
+  solo: "tabCategorySolo",
+};
+
+const LAYOUT_MODE_LABELS: Record<LayoutMode, string> = {
+  sorted: "layoutModeSorted",
+  stable: "layoutModeStable",
+};
+
+const SortStrategySettings = ({
+  config,
+  onChange,
+}: {
+  config: GroupingConfig;
+  onChange: (config: GroupingConfig) => void;
+}) => {
+  const sortStrategy = config.sortStrategy ?? {};
+  const update = (key: "default" | TabCategory, value: string) =>
+    onChange({
+      ...config,
+      sortStrategy: {
+        ...sortStrategy,
+        [key]: (value || null) as SortStrategy | null,
+      },
+    });
+  const categoryOrder = config.categoryOrder ?? [...TAB_CATEGORIES];
+  const swap = (i: number, j: number) => {
+    const next = [...categoryOrder];
+    [next[i], next[j]] = [next[j], next[i]];
+    onChange({ ...config, categoryOrder: next });
+  };
+  // The stable layout keeps the current order, so none of the rest applies
+  const stable = config.layoutMode === "stable";
+  const selectClass =
+    "px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100";
+  const moveClass =
+    "text-gray-400 hover:text-gray-600 p-0.5 disabled:opacity-40";
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 mb-6">
+      <label className="block text-sm font-medium text-gray-700 mb-4">
+        {chrome.i18n.getMessage("sortStrategyLabel")}
+      </label>
+      <div className="grid grid-cols-[auto_auto_1fr] items-center gap-x-4 gap-y-2">
+        <label htmlFor="layout-mode" className="text-sm text-gray-700">
+          {chrome.i18n.getMessage("layoutModeLabel")}
+        </label>
+        <select
+          id="layout-mode"
+          value={config.layoutMode ?? "sorted"}
+          onChange={(e) =>
+            onChange({ ...config, layoutMode: e.target.value as LayoutMode })
+          }
+          className={`${selectClass} justify-self-start`}
+        >
+          {LAYOUT_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {chrome.i18n.getMessage(LAYOUT_MODE_LABELS[mode])}
+            </option>
+          ))}
+        </select>
+        <span />
+        <label
+          htmlFor="sort-strategy-default"
+          className="text-sm text-gray-700"
+        >
+          {chrome.i18n.getMessage("sortStrategyDefaultLabel")}
+        </label>
+        <select
+          id="sort-strategy-default"
+          value={sortStrategy.default ?? "title"}
+          disabled={stable}
+          onChange={(e) => update("default", e.target.value)}
+          className={`${selectClass} justify-self-start`}
+        >
+          {SORT_STRATEGIES.map((strategy) => (
+            <option key={strategy} value={strategy}>
+              {chrome.i18n.getMessage(SORT_STRATEGY_LABELS[strategy])}
+            </option>
+          ))}
+        </select>
+        <span />
+        {categoryOrder.map((category, i) => (
+          <React.Fragment key={category}>
+            <label
+              htmlFor={`sort-strategy-${category}`}
+              className="text-sm text-gray-700"
+            >
+              {chrome.i18n.getMessage(TAB_CATEGORY_LABELS[category])}
+            </label>
+            <select
+              id={`sort-strategy-${category}`}
+              value={sortStrategy[category] ?? ""}
+              disabled={stable}
+              onChange={(e) => update(category, e.target.value)}
+              className={`${selectClass} justify-self-start`}
+            >
+              <option value="">
+                {chrome.i18n.getMessage("sortStrategyUseDefault")}
+              </option>
+              {SORT_STRATEGIES.map((strategy) => (
+                <option key={strategy} value={strategy}>
+                  {chrome.i18n.getMessage(SORT_STRATEGY_LABELS[strategy])}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1">
+              <button
+                disabled={stable || i === 0}
+                onClick={() => swap(i, i - 1)}
+                className={moveClass}
+                title={chrome.i18n.getMessage("moveCategoryUp")}
+                aria-label={chrome.i18n.getMessage("moveCategoryUpAriaLabel", [
+                  chrome.i18n.getMessage(TAB_CATEGORY_LABELS[category]),
+                ])}
+              >
+                <ArrowUpIcon className="w-4 h-4" />
+              </button>
+              <button
+                disabled={stable || i === categoryOrder.length - 1}
+                onClick={() => swap(i, i + 1)}
+                className={moveClass}
+                title={chrome.i18n.getMessage("moveCategoryDown")}
+                aria-label={chrome.i18n.getMessage(
+                  "moveCategoryDownAriaLabel",
+                  [chrome.i18n.getMessage(TAB_CATEGORY_LABELS[category])],
+                )}
+              >
+                <ArrowDownIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+const DedupSettings = ({
+  config,
+  onChange,
+}: {
+  config: GroupingConfig;
+  onChange: (config: GroupingConfig) => void;
+}) => (
+  <section className="bg-white rounded-lg shadow p-6 mb-6">
+    <label className="block text-sm font-medium text-gray-700 mb-4">
+      {chrome.i18n.getMessage("urlNormalizationLabel")}
+    </label>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {URL_NORMALIZATION_OPTIONS.map(({ flag, labelKey }) => (
+        <label key={flag} className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!config.urlNormalization?.[flag]}
+            onChange={(e) =>
+              onChange({
+                ...config,
+                urlNormalization: {
+                  ...config.urlNormalization,
+                  [flag]: e.target.checked,
+                },
+              })
+            }
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+          />
+          <span className="text-sm text-gray-700">
+            {chrome.i18n.getMessage(labelKey)}
+          </span>
+        </label>
+      ))}
+    </div>
+    <label className="block text-sm font-medium text-gray-700 mt-6 mb-4">
+      {chrome.i18n.getMessage("keepPolicyLabel")}
+    </label>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {DEDUP_KEEP_PREFERENCES.map((preference) => (
+        <label
+          key={preference}
+          className="flex items-center gap-2 cursor-pointer"
+        >
+          <input
+            type="checkbox"
+            checked={!!config.dedupKeepPolicy?.includes(preference)}
+            onChange={(e) => {
+              const enabled = new Set(config.dedupKeepPolicy);
+              if (e.target.checked) enabled.add(preference);
+              else enabled.delete(preference);
+              // Stored in the canonical priority order of DEDUP_KEEP_PREFERENCES
+              onChange({
+                ...config,
+                dedupKeepPolicy: DEDUP_KEEP_PREFERENCES.filter((p) =>
+                  enabled.has(p),
+                ),
+              });
+            }}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+          />
+          <span className="text-sm text-gray-700">
+            {chrome.i18n.getMessage(KEEP_PREFERENCE_LABELS[preference])}
+          </span>
+        </label>
+      ))}
+    </div>
+    <div className="flex items-center gap-2 mt-6">
+      <label
+        htmlFor="blank-tab-cleanup"
+        className="text-sm font-medium text-gray-700"
+      >
+        {chrome.i18n.getMessage("blankTabCleanupLabel")}
+      </label>
+      <select
+        id="blank-tab-cleanup"
+        value={
+          config.blankTabCleanup ??
+          (config.internalPagePolicy === "closeSurplusNewTabs"
+            ? "keepOne"
+            : "off")
+        }
+        onChange={(e) =>
+          onChange({
+            ...config,
+            blankTabCleanup: e.target.value as BlankTabCleanup,
+          })
+        }
+        className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {BLANK_TAB_CLEANUP_MODES.map((mode) => (
+          <option key={mode} value={mode}>
+            {chrome.i18n.getMessage(BLANK_TAB_CLEANUP_LABELS[mode])}
+          </option>
+        ))}
+      </select>
+    </div>
+    <label className="block text-sm font-medium text-gray-700 mt-6 mb-2">
+      {chrome.i18n.getMessage("dedupExemptPatternsLabel")}
+    </label>
+    <DelimitedListInput
+      multiline
+      value={config.dedupExemptPatterns}
+      onChange={(patterns) =>
+        onChange({
+          ...config,
+          // Patterns use the rule syntax (host + optional path), so drop any scheme
+          dedupExemptPatterns:
+            patterns?.map((p) => p.replace(/^[a-z]+:\/\//i, "")) ?? null,
+        })
+      }
+      className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      placeholder={chrome.i18n.getMessage("dedupExemptPatternsPlaceholder")}
+      ariaLabel={chrome.i18n.getMessage("dedupExemptPatternsLabel")}
+    />
+  </section>
+);
+
+const RUN_TRIGGER_OPTIONS: {
+  name: RunTriggerName;
+  labelKey: string;
+  minutesLabelKey: string;
+}[] = [
+  {
+    name: "scheduledRun",
+    labelKey: "scheduledRunLabel",
+    minutesLabelKey: "scheduledRunMinutesLabel",
+  },
+  {
+    name: "idleRun",
+    labelKey: "idleRunLabel",
+    minutesLabelKey: "idleRunMinutesLabel",
+  },
+];
+
+// Same wording as the popup's phase buttons
+const PHASE_LABELS: Record<RunPhase, string> = {
+  dedup: "popupRunDedup",
+  autoDelete: "popupRunAutoDelete",
+  consolidate: "popupRunConsolidate",
+  group: "popupRunGroup",
+  sort: "popupRunSort",
+};
+
+const RunTriggerSettings = ({
+  config,
+  onChange,
+}: {
+  config: GroupingConfig;
+  onChange: (config: GroupingConfig) => void;
+}) => (
+  <section className="bg-white rounded-lg shadow p-6 mb-6">
+    <label className="block text-sm font-medium text-gray-700 mb-4">
+      {chrome.i18n.getMessage("runTriggersLabel")}
+    </label>
+    <div className="space-y-4">
+      {RUN_TRIGGER_OPTIONS.map(({ name, labelKey, minutesLabelKey }) => {
+        const trigger = config[name] ?? DEFAULT_RUN_TRIGGERS[name];
+        const update = (patch: Partial<RunTrigger>) =>
+          onChange({ ...config, [name]: { ...trigger, ...patch } });
+        return (
+          <div
+            key={name}
+            role="group"
+            aria-label={chrome.i18n.getMessage(labelKey)}
+            className="border-b border-gray-200 pb-4 last:border-b-0 last:pb-0"
+          >
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={trigger.enabled}
+                  onChange={(e) => update({ enabled: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">
+                  {chrome.i18n.getMessage(labelKey)}
+                </span>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={trigger.minutes}
+                  disabled={!trigger.enabled}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value, 10);
+                    if (val > 0) update({ minutes: val });
+                  }}
+                  className="w-20 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                />
+                <span className="text-sm text-gray-700">
+                  {chrome.i18n.getMessage(minutesLabelKey)}
+                </span>
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-4 mt-2 ml-6">
+              {RUN_PHASES.map((phase) => (
+                <label
+                  key={phase}
+                  className="flex items-center gap-2 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={trigger.phases.includes(phase)}
+                    disabled={!trigger.enabled}
+                    onChange={(e) => {
+                      const enabled = new Set(trigger.phases);
+                      if (e.target.checked) enabled.add(phase);
+                      else enabled.delete(phase);
+                      update({
+                        phases: RUN_PHASES.filter((p) => enabled.has(p)),
+                      });
+                    }}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">
+                    {chrome.i18n.getMessage(PHASE_LABELS[phase])}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </section>
+);
+
+const RULE_DRAG_TYPE = "application/x-rule-index";
+
+/**
+ * Moves a rule in the table and gives it a priority between its new
+ * neighbours'. Other rules are renumbered only when that priority is taken.
+ */
+function moveRule(rules: Rule[], from: number, to: number): Rule[] {
+  const next = [...rules];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  const above = next[to - 1]?.priority ?? null;
+  const below = next[to + 1]?.priority ?? null;
+
+  let priority: number | null;
+  if (below !== null) {
+    const gap = below - 1 > (above ?? 0);
+    priority = gap ? below - 1 : below;
+  } else if (above !== null) {
+    priority = above + 1;
+  } else {
+    // Among unprioritized rules, only the top spot means anything
+    priority = to === 0 ? 1 : null;
+  }
+
+  const taken =
+    priority !== null &&
+    next.some((r) => r !== moved && r.priority === priority);
+  return next.map((r) => {
+    if (r === moved) return { ...r, priority };
+    if (taken && r.priority != null && r.priority >= priority!) {
+      return { ...r, priority: r.priority + 1 };
+    }
+    return r;
+  });
+}
+
 const RuleRow = React.memo(
   ({
     rule,
+    index,
     onUpdate,
     onRemove,
+    onMove,
     existingGroups,
   }: {
     rule: Rule;
+    index: number;
     onUpdate: (id: string, updates: Partial<Rule>) => void;
     onRemove: (id: string) => void;
+    onMove: (from: number, to: number) => void;
     existingGroups: string[];
   }) => {
-    // FIX: splitByPath and groupName are disabled by Delete (spec: clears these fields)
-    const isSplitDisabled = rule.autoDelete;
-    const isGroupNameDisabled = rule.autoDelete;
+    // FIX: splitByPath and groupName are disabled by Delete (spec: clears these fields).
+    // Conditional deletes leave tabs behind, and those still get grouped.
+    const isSplitDisabled = rule.autoDelete === true;
+    const isGroupNameDisabled = rule.autoDelete === true;
 
     return (
-      <tr>
+      <tr
+        onDragOver={(e) => {
+          if (e.dataTransfer.types.includes(RULE_DRAG_TYPE)) e.preventDefault();
+        }}
+        onDrop={(e) => {
+          const from = parseInt(e.dataTransfer.getData(RULE_DRAG_TYPE), 10);
+          if (Number.isNaN(from)) return;
+          e.preventDefault();
+          onMove(from, index);
+        }}
+      >
+        <td className="pl-3 py-4">
+          <div className="flex items-center gap-1">
+            <button
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                e.dataTransfer.setData(RULE_DRAG_TYPE, String(index));
+              }}
+              onKeyDown={(e) => {
+                // Keyboard alternative to dragging
+                if (e.key === "ArrowUp" && index > 0) onMove(index, index - 1);
+                if (e.key === "ArrowDown") onMove(index, index + 1);
+              }}
+              className="text-gray-400 hover:text-gray-600 p-0.5 cursor-grab"
+              title={chrome.i18n.getMessage("reorderRuleTooltip")}
+              aria-label={chrome.i18n.getMessage("reorderRuleAriaLabel", [
+                rule.domain,
+              ])}
+            >
+              <Bars3Icon className="w-4 h-4" />
+            </button>
+            <input
+              type="number"
+              min="1"
+              placeholder={chrome.i18n.getMessage("priorityPlaceholder")}
+              value={rule.priority ?? ""}
+              onChange={(e) => {
+                const val = parseInt(e.target.value, 10);
+                onUpdate(rule.id!, {
+                  priority: isNaN(val) || val <= 0 ? null : val,
+                });
+              }}
+              className="w-12 px-1 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={chrome.i18n.getMessage("priorityAriaLabel", [
+                rule.domain,
+              ])}
+            />
+            <button
+              disabled={rule.priority == null}
+              onClick={() => onUpdate(rule.id!, { priority: null })}
+              className="text-gray-400 hover:text-gray-600 p-0.5 disabled:opacity-40"
+              title={chrome.i18n.getMessage("clearPriorityTooltip")}
+              aria-label={chrome.i18n.getMessage("clearPriorityAriaLabel", [
+                rule.domain,
+              ])}
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </td>
         <td className="px-6 py-4 text-sm font-medium text-gray-900">
           {rule.domain}
+          <label className="flex items-center gap-1 mt-1 text-xs font-normal text-gray-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!rule.exclude}
+              onChange={(e) =>
+                onUpdate(rule.id!, { exclude: e.target.checked })
+              }
+              className="w-3 h-3 text-blue-600 rounded focus:ring-blue-500"
+              aria-label={chrome.i18n.getMessage("excludeAriaLabel", [
+                rule.domain,
+              ])}
+            />
+            {chrome.i18n.getMessage("excludeLabel")}
+          </label>
         </td>
         <td className="px-6 py-4">
           <input
@@ -341,6 +1203,41 @@ const RuleRow = React.memo(
               rule.domain,
             ])}
           />
+          <RuleConditionSelect
+            value={rule.autoDelete}
+            modes={["always", "idle", "inactive"]}
+            ariaLabel={chrome.i18n.getMessage("autoDeleteConditionAriaLabel", [
+              rule.domain,
+            ])}
+            idleAriaLabel={chrome.i18n.getMessage("idleMinutesAriaLabel", [
+              rule.domain,
+            ])}
+            onChange={(val) => onUpdate(rule.id!, { autoDelete: val })}
+          />
+        </td>
+        <td className="px-6 py-4">
+          <input
+            type="checkbox"
+            checked={!!rule.discard}
+            disabled={rule.autoDelete === true}
+            onChange={(e) => onUpdate(rule.id!, { discard: e.target.checked })}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 cursor-pointer disabled:opacity-50"
+            aria-label={chrome.i18n.getMessage("discardAriaLabel", [
+              rule.domain,
+            ])}
+          />
+          <RuleConditionSelect
+            value={rule.discard}
+            modes={["always", "idle", "collapsed"]}
+            ariaLabel={chrome.i18n.getMessage("discardConditionAriaLabel", [
+              rule.domain,
+            ])}
+            idleAriaLabel={chrome.i18n.getMessage(
+              "discardIdleMinutesAriaLabel",
+              [rule.domain],
+            )}
+            onChange={(val) => onUpdate(rule.id!, { discard: val })}
+          />
         </td>
         <td className="px-6 py-4">
           <div className="flex items-center gap-1">
@@ -380,6 +1277,38 @@ const RuleRow = React.memo(
             existingGroups={existingGroups}
           />
         </td>
+        <td className="px-6 py-4">
+          <DelimitedListInput
+            value={rule.ignoredQueryParams}
+            onChange={(val) => onUpdate(rule.id!, { ignoredQueryParams: val })}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder={chrome.i18n.getMessage("ignoredParamsPlaceholder")}
+            ariaLabel={chrome.i18n.getMessage("ignoredParamsAriaLabel", [
+              rule.domain,
+            ])}
+          />
+        </td>
+        <td className="px-6 py-4">
+          <input
+            type="checkbox"
+            checked={!!rule.skipDedup}
+            onChange={(e) =>
+              onUpdate(rule.id!, { skipDedup: e.target.checked })
+            }
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 cursor-pointer"
+            aria-label={chrome.i18n.getMessage("skipDedupAriaLabel", [
+              rule.domain,
+            ])}
+          />
+        </td>
+        <td className="px-6 py-4">
+          <GroupColorSelect
+            value={rule.color}
+            domain={rule.domain}
+            disabled={rule.autoDelete === true}
+            onChange={(val) => onUpdate(rule.id!, { color: val })}
+          />
+        </td>
         <td className="px-6 py-4">
           <button
             onClick={() => onRemove(rule.id!)}
@@ -396,10 +1325,199 @@ const RuleRow = React.memo(
   },
 );
 
+const ArchiveSection = ({
+  archive,
+  onRestore,
+}: {
+  archive: ArchivedTab[];
+  onRestore: (entries: ArchivedTab[]) => void;
+}) => {
+  const [query, setQuery] = useState("");
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return archive;
+    return archive.filter((e) =>
+      [e.title, e.url, e.groupTitle || ""].some((f) =>
+        f.toLowerCase().includes(q),
+      ),
+    );
+  }, [archive, query]);
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-gray-700">
+          {chrome.i18n.getMessage("archiveLabel")}
+        </label>
+        <button
+          disabled={matches.length === 0}
+          onClick={() => onRestore(matches)}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-default"
+        >
+          <ArrowUturnLeftIcon className="w-4 h-4" />
+          {chrome.i18n.getMessage("restoreAllButton")}
+        </button>
+      </div>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={chrome.i18n.getMessage("archiveSearchPlaceholder")}
+        className="w-full px-3 py-2 mb-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label={chrome.i18n.getMessage("archiveSearchAriaLabel")}
+      />
+      {matches.length === 0 ? (
+        <p className="py-6 text-center text-gray-400 italic">
+          {chrome.i18n.getMessage("archiveEmptyMessage")}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+          {matches.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-3 py-2">
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-medium text-gray-900 truncate">
+                  {entry.title}
+                </div>
+                <div className="text-xs text-gray-500 truncate">
+                  {entry.url}
+                </div>
+              </div>
+              {entry.groupTitle && (
+                <span className="px-2 py-0.5 text-xs bg-gray-100 text-gray-600 rounded">
+                  {entry.groupTitle}
+                </span>
+              )}
+              <span className="text-xs text-gray-400 whitespace-nowrap">
+                {new Date(entry.closedAt).toLocaleString()}
+              </span>
+              <button
+                onClick={() => onRestore([entry])}
+                className="text-blue-600 hover:text-blue-800 transition-colors p-1 rounded hover:bg-blue-50"
+                aria-label={chrome.i18n.getMessage("restoreTabAriaLabel", [
+                  entry.title,
+                ])}
+              >
+                <ArrowUturnLeftIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+const groupLabel = (title: string) =>
+  title || chrome.i18n.getMessage("previewUntitledGroup");
+
+const PreviewPanel = ({
+  preview,
+  onApply,
+  onCancel,
+}: {
+  preview: RunPreview;
+  onApply: () => void;
+  onCancel: () => void;
+}) => {
+  const sections = [
+    { labelKey: "previewToClose", items: preview.toClose.map((t) => t.title) },
+    {
+      labelKey: "previewToDiscard",
+      items: preview.toDiscard.map((t) => t.title),
+    },
+    {
+      labelKey: "previewWindowMoves",
+      items: preview.windowMoves.map(
+        (t) =>
+          `${t.title} (${chrome.i18n.getMessage("previewWindowMove", [
+            String(t.fromWindowId),
+            String(t.toWindowId),
+          ])})`,
+      ),
+    },
+    {
+      labelKey: "previewGroupsCreated",
+      items: preview.groupsCreated.map(
+        (g) =>
+          `${groupLabel(g.title)} (${chrome.i18n.getMessage("previewTabCount", [
+            String(g.tabCount),
+          ])})`,
+      ),
+    },
+    {
+      labelKey: "previewGroupsRenamed",
+      items: preview.groupsRenamed.map(
+        (g) => `${groupLabel(g.from)} → ${groupLabel(g.to)}`,
+      ),
+    },
+    {
+      labelKey: "previewGroupsDissolved",
+      items: preview.groupsDissolved.map(groupLabel),
+    },
+  ].filter((section) => section.items.length > 0);
+  const hasChanges = sections.length > 0 || preview.reorderCount > 0;
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 mb-6 border-l-4 border-blue-500">
+      <label className="block text-sm font-medium text-gray-700 mb-4">
+        {chrome.i18n.getMessage("previewTitle")}
+      </label>
+      {!hasChanges ? (
+        <p className="text-sm text-gray-500 italic">
+          {chrome.i18n.getMessage("previewNoChanges")}
+        </p>
+      ) : (
+        <div className="space-y-3 text-sm">
+          {sections.map(({ labelKey, items }) => (
+            <div key={labelKey}>
+              <div className="font-medium text-gray-700">
+                {chrome.i18n.getMessage(labelKey, [String(items.length)])}
+              </div>
+              <ul className="list-disc ml-5 text-gray-600">
+                {items.map((item, i) => (
+                  <li key={i} className="truncate">
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {preview.reorderCount > 0 && (
+            <div className="font-medium text-gray-700">
+              {chrome.i18n.getMessage("previewReorderCount", [
+                String(preview.reorderCount),
+              ])}
+            </div>
+          )}
+        </div>
+      )}
+      <div className="flex gap-2 mt-6">
+        <button
+          onClick={onApply}
+          disabled={!hasChanges}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-default"
+        >
+          {chrome.i18n.getMessage("applyButton")}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 cursor-pointer transition-colors"
+        >
+          {chrome.i18n.getMessage("cancelButton")}
+        </button>
+      </div>
+    </section>
+  );
+};
+
 // --- Main App Component ---
 
 export default function App() {
   const { rules, grouping, updateRules, updateGrouping } = useSyncStore();
+  const { archive, restore } = useArchive();
+  const [preview, setPreview] = useState<RunPreview | null>(null);
+  const [previewFailed, setPreviewFailed] = useState(false);
 
   const existingGroups = useMemo(
     () =>
@@ -411,9 +1529,17 @@ export default function App() {
 
   const handleAddDomain = (domainUrl: string) => {
     try {
-      const normalized = normalizeDomainInput(domainUrl);
+      // Wildcard rules ("*.example.com") keep their prefix; the rest is parsed as a URL
+      const trimmed = domainUrl.trim();
+      const isWildcard = trimmed.startsWith("*.");
+      const normalized = normalizeDomainInput(
+        isWildcard ? trimmed.slice(2) : trimmed,
+      );
       const url = new URL(normalized);
-      const domain = url.hostname;
+      const host = isWildcard ? `*.${url.hostname}` : url.hostname;
+      // A path turns the rule into a URL pattern rule (e.g. "google.com/search")
+      const path = decodeURI(url.pathname).replace(/\/$/, "");
+      const domain = `${host}${path}`;
 
       if (rules.some((r) => r.domain === domain)) {
         alert(chrome.i18n.getMessage("ruleExistsAlert", [domain]));
@@ -442,37 +1568,118 @@ export default function App() {
     updateRules(rules.map((r) => (r.id === id ? { ...r, ...updates } : r)));
   };
 
+  const handleMoveRule = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= rules.length) return;
+    updateRules(moveRule(rules, from, to));
+  };
+
+  const handlePreview = async () => {
+    const message: RuntimeMessage = { type: "preview" };
+    try {
+      // The background replies null when the preview failed
+      const next: RunPreview | null = await chrome.runtime.sendMessage(message);
+      if (!next) throw new Error("Run preview failed");
+      setPreview(next);
+      setPreviewFailed(false);
+    } catch (err) {
+      console.error("Failed to preview the run:", err);
+      setPreview(null);
+      setPreviewFailed(true);
+    }
+  };
+
+  const handleApplyPreview = async () => {
+    setPreview(null);
+    const message: RuntimeMessage = { type: "execute" };
+    await chrome.runtime.sendMessage(message);
+  };
+
+  const handleUndoLastRun = async () => {
+    const message: RuntimeMessage = { type: "undoLastRun" };
+    const undone = await chrome.runtime.sendMessage(message);
+    if (!undone) alert(chrome.i18n.getMessage("nothingToUndoAlert"));
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 p-8 font-sans text-gray-900">
       <div className="max-w-6xl mx-auto">
-        <header className="mb-8">
-          <h1 className="text-3xl font-extrabold text-gray-900">
-            {chrome.i18n.getMessage("optionsTitle")}
-          </h1>
-          <p className="text-gray-600 mt-2">
-            {chrome.i18n.getMessage("optionsDescription")}
-          </p>
+        <header className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-extrabold text-gray-900">
+              {chrome.i18n.getMessage("optionsTitle")}
+            </h1>
+            <p className="text-gray-600 mt-2">
+              {chrome.i18n.getMessage("optionsDescription")}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handlePreview}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 flex items-center gap-2 cursor-pointer transition-colors whitespace-nowrap"
+            >
+              <EyeIcon className="w-4 h-4" />
+              {chrome.i18n.getMessage("previewButton")}
+            </button>
+            <button
+              onClick={handleUndoLastRun}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 flex items-center gap-2 cursor-pointer transition-colors whitespace-nowrap"
+            >
+              <ArrowUturnLeftIcon className="w-4 h-4" />
+              {chrome.i18n.getMessage("undoLastRunButton")}
+            </button>
+          </div>
         </header>
 
+        {previewFailed && (
+          <p role="alert" className="mb-6 text-red-600">
+            {chrome.i18n.getMessage("previewError")}
+          </p>
+        )}
+        {preview && (
+          <PreviewPanel
+            preview={preview}
+            onApply={handleApplyPreview}
+            onCancel={() => setPreview(null)}
+          />
+        )}
+
         <GroupingSettings config={grouping} onChange={updateGrouping} />
+        <SortStrategySettings config={grouping} onChange={updateGrouping} />
+        <DedupSettings config={grouping} onChange={updateGrouping} />
+        <RunTriggerSettings config={grouping} onChange={updateGrouping} />
         <AddDomainForm onAdd={handleAddDomain} />
 
         <section className="bg-white rounded-lg shadow overflow-hidden">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50 text-gray-500 uppercase text-xs font-semibold tracking-wider">
               <tr>
+                <th className="pl-3 py-4 text-left">
+                  {chrome.i18n.getMessage("priorityColumn")}
+                </th>
                 <th className="px-6 py-4 text-left">
                   {chrome.i18n.getMessage("domainColumn")}
                 </th>
                 <th className="px-6 py-4 text-left">
                   {chrome.i18n.getMessage("autoDeleteColumn")}
                 </th>
+                <th className="px-6 py-4 text-left">
+                  {chrome.i18n.getMessage("discardColumn")}
+                </th>
                 <th className="px-6 py-4 text-left">
                   {chrome.i18n.getMessage("splitUrlColumn")}
                 </th>
                 <th className="px-6 py-4 text-left">
                   {chrome.i18n.getMessage("groupNameColumn")}
                 </th>
+                <th className="px-6 py-4 text-left">
+                  {chrome.i18n.getMessage("ignoredParamsColumn")}
+                </th>
+                <th className="px-6 py-4 text-left">
+                  {chrome.i18n.getMessage("skipDedupColumn")}
+                </th>
+                <th className="px-6 py-4 text-left">
+                  {chrome.i18n.getMessage("colorColumn")}
+                </th>
                 <th className="px-6 py-4 text-left">
                   {chrome.i18n.getMessage("actionsColumn")}
                 </th>
@@ -482,20 +1689,22 @@ export default function App() {
               {rules.length === 0 ? (
                 <tr>
                   <td
-                    colSpan={5}
+                    colSpan={10}
                     className="px-6 py-12 text-center text-gray-400 italic"
                   >
                     {chrome.i18n.getMessage("noRulesMessage")}
                   </td>
                 </tr>
               ) : (
-                rules.map((rule) => (
+                rules.map((rule, index) => (
                   <RuleRow
                     key={rule.id}
                     rule={rule}
+                    index={index}
                     existingGroups={existingGroups}
                     onUpdate={handleUpdateRule}
                     onRemove={handleRemoveRule}
+                    onMove={handleMoveRule}
                   />
                 ))
               )}
@@ -503,6 +1712,8 @@ export default function App() {
           </table>
         </section>
 
+        <ArchiveSection archive={archive} onRestore={restore} />
+
         <footer className="mt-8 text-center text-gray-400 text-xs flex flex-col gap-1">
           <div>
             {chrome.i18n.getMessage("copyrightText", [
@@ -0,0 +1,154 @@
+import * as matchers from "@testing-library/jest-dom/matchers";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+
+import PopupApp from "./PopupApp";
+
+expect.extend(matchers);
+
+const mockChrome = {
+  i18n: {
+    getMessage: vi.fn((key, placeholders) => {
+      const messages: { [key: string]: string } = {
+        popupDuplicates: "Tabs to close",
+        popupWindows: "Windows (open / to keep)",
+        popupRunAll: "Run all",
+        popupRunDedup: "Close duplicates",
+        previewTabCount: "$COUNT$ tabs",
+        popupRenameOffer: 'Use "$TITLE$" as the group name for $DOMAIN$?',
+        popupRenameOfferAccept: "Update rule",
+        popupAnalysisError: "Couldn't analyze your tabs.",
+        popupLoading: "Analyzing tabs…",
+      };
+      let message = messages[key] || key;
+      if (placeholders) {
+        const p = Array.isArray(placeholders) ? placeholders : [placeholders];
+        p.forEach((val) => {
+          message = message.replace(/\$[A-Z0-9_]+\$/, val);
+        });
+      }
+      return message;
+    }),
+  },
+  runtime: {
+    sendMessage: vi.fn(),
+    openOptionsPage: vi.fn(),
+  },
+};
+
+vi.stubGlobal("chrome", mockChrome);
+
+const analysis = {
+  closeCount: 3,
+  pendingGroupingCount: 2,
+  reorderCount: 1,
+  windowCount: 4,
+  numWindowsToKeep: 2,
+  currentWindowGroups: [
+    { id: 7, title: "Docs", color: "blue", collapsed: false, tabCount: 5 },
+  ],
+  renameOffers: [],
+};
+
+describe("PopupApp", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockChrome.runtime.sendMessage.mockImplementation(async (message) =>
+      message.type === "analyze" ? analysis : undefined,
+    );
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("shows an error when the analysis fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockChrome.runtime.sendMessage.mockResolvedValueOnce(null);
+    render(<PopupApp />);
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Couldn't analyze your tabs.",
+    );
+    expect(screen.queryByText("Analyzing tabs…")).not.toBeInTheDocument();
+  });
+
+  it("shows an error when the background script is unreachable", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockChrome.runtime.sendMessage.mockRejectedValueOnce(
+      new Error("Receiving end does not exist."),
+    );
+    render(<PopupApp />);
+
+    expect(await screen.findByRole("alert")).toBeInTheDocument();
+  });
+
+  it("shows the analysis from the background script", async () => {
+    render(<PopupApp />);
+
+    expect(await screen.findByText("Docs")).toBeInTheDocument();
+    expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({
+      type: "analyze",
+    });
+    expect(screen.getByText("Tabs to close").nextSibling).toHaveTextContent(
+      "3",
+    );
+    expect(
+      screen.getByText("Windows (open / to keep)").nextSibling,
+    ).toHaveTextContent("4 / 2");
+    expect(screen.getByText("5 tabs")).toBeInTheDocument();
+  });
+
+  it("runs a single phase and refreshes the analysis", async () => {
+    render(<PopupApp />);
+    await screen.findByText("Docs");
+
+    fireEvent.click(screen.getByRole("button", { name: "Close duplicates" }));
+
+    await waitFor(() => {
+      expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: "execute",
+        phases: ["dedup"],
+      });
+    });
+    await waitFor(() => {
+      expect(
+        mockChrome.runtime.sendMessage.mock.calls.filter(
+          ([m]) => m.type === "analyze",
+        ).length,
+      ).toBeGreaterThanOrEqual(2);
+    });
+  });
+
+  it("accepts a rename offer", async () => {
+    mockChrome.runtime.sendMessage.mockImplementation(async (message) =>
+      message.type === "analyze"
+        ? {
+            ...analysis,
+            renameOffers: [{ groupId: 7, domain: "docs.rs", title: "Docs" }],
+          }
+        : undefined,
+    );
+    render(<PopupApp />);
+
+    expect(
+      await screen.findByText('Use "Docs" as the group name for docs.rs?'),
+    ).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Update rule" }));
+
+    await waitFor(() => {
+      expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: "resolveRenameOffer",
+        groupId: 7,
+        accept: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  GroupId,
+  RUN_PHASES,
+  RunAnalysis,
+  RunPhase,
+  RuntimeMessage,
+} from "@/types";
+import { useEffect, useState } from "react";
+
+const PHASE_BUTTONS: { labelKey: string; phases: readonly RunPhase[] }[] = [
+  { labelKey: "popupRunAll", phases: RUN_PHASES },
+  { labelKey: "popupRunDedup", phases: ["dedup"] },
+  { labelKey: "popupRunAutoDelete", phases: ["autoDelete"] },
+  { labelKey: "popupRunConsolidate", phases: ["consolidate"] },
+  { labelKey: "popupRunGroup", phases: ["group"] },
+  { labelKey: "popupRunSort", phases: ["sort"] },
+];
+
+// The background replies null when the analysis failed
+const requestAnalysis = async (): Promise<RunAnalysis> => {
+  const message: RuntimeMessage = { type: "analyze" };
+  const analysis: RunAnalysis | null =
+    await chrome.runtime.sendMessage(message);
+  if (!analysis) throw new Error("Tab analysis failed");
+  return analysis;
+};
+
+const resolveRenameOffer = (groupId: GroupId, accept: boolean) => {
+  const message: RuntimeMessage = {
+    type: "resolveRenameOffer",
+    groupId,
+    accept,
+  };
+  return chrome.runtime.sendMessage(message);
+};
+
+const Stat = ({ labelKey, value }: { labelKey: string; value: string }) => (
+  <div className="flex justify-between gap-4">
+    <dt className="text-gray-600">{chrome.i18n.getMessage(labelKey)}</dt>
+    <dd className="font-medium">{value}</dd>
+  </div>
+);
+
+export default function PopupApp() {
+  const [analysis, setAnalysis] = useState<RunAnalysis | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const refresh = () =>
+    requestAnalysis().then(
+      (next) => {
+        setAnalysis(next);
+        setFailed(false);
+      },
+      (err) => {
+        console.error("Failed to analyze tabs:", err);
+        setFailed(true);
+      },
+    );
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const run = async (phases: readonly RunPhase[]) => {
+    setRunning(true);
+    try {
+      const message: RuntimeMessage = { type: "execute", phases: [...phases] };
+      await chrome.runtime.sendMessage(message);
+      await refresh();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const answerOffer = async (groupId: GroupId, accept: boolean) => {
+    await resolveRenameOffer(groupId, accept);
+    await refresh();
+  };
+
+  return (
+    <div className="w-80 p-4 font-sans text-sm text-gray-900">
+      <h1 className="text-base font-bold mb-3">
+        {chrome.i18n.getMessage("appName")}
+      </h1>
+      {failed && (
+        <p role="alert" className="mb-3 text-red-600">
+          {chrome.i18n.getMessage("popupAnalysisError")}
+        </p>
+      )}
+      {!analysis ? (
+        !failed && (
+          <p className="text-gray-500 italic">
+            {chrome.i18n.getMessage("popupLoading")}
+          </p>
+        )
+      ) : (
+        <>
+          {analysis.renameOffers.map((offer) => (
+            <div
+              key={offer.groupId}
+              className="mb-3 p-2 bg-blue-50 border border-blue-200 rounded-md"
+            >
+              <p className="mb-2">
+                {chrome.i18n.getMessage("popupRenameOffer", [
+                  offer.title,
+                  offer.domain,
+                ])}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => answerOffer(offer.groupId, true)}
+                  className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 cursor-pointer"
+                >
+                  {chrome.i18n.getMessage("popupRenameOfferAccept")}
+                </button>
+                <button
+                  onClick={() => answerOffer(offer.groupId, false)}
+                  className="px-2 py-1 border border-gray-300 text-gray-700 rounded hover:bg-gray-100 cursor-pointer"
+                >
+                  {chrome.i18n.getMessage("popupRenameOfferDismiss")}
+                </button>
+              </div>
+            </div>
+          ))}
+          <dl className="space-y-1 mb-4">
+            <Stat
+              labelKey="popupDuplicates"
+              value={String(analysis.closeCount)}
+            />
+            <Stat
+              labelKey="popupPendingGrouping"
+              value={String(analysis.pendingGroupingCount)}
+            />
+            <Stat
+              labelKey="popupPendingReorder"
+              value={String(analysis.reorderCount)}
+            />
+            <Stat
+              labelKey="popupWindows"
+              value={
+                analysis.numWindowsToKeep === null
+                  ? String(analysis.windowCount)
+                  : `${analysis.windowCount} / ${analysis.numWindowsToKeep}`
+              }
+            />
+          </dl>
+          <div className="mb-4">
+            <div className="font-medium text-gray-700 mb-1">
+              {chrome.i18n.getMessage("popupCurrentWindowGroups")}
+            </div>
+            {analysis.currentWindowGroups.length === 0 ? (
+              <p className="text-gray-500 italic">
+                {chrome.i18n.getMessage("popupNoGroups")}
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {analysis.currentWindowGroups.map((g) => (
+                  <li key={g.id} className="flex items-center gap-2">
+                    <span
+                      className="w-3 h-3 rounded-full shrink-0"
+                      style={{ backgroundColor: g.color }}
+                    />
+                    <span className="truncate flex-1">
+                      {g.title ||
+                        chrome.i18n.getMessage("previewUntitledGroup")}
+                    </span>
+                    <span className="text-gray-500">
+                      {chrome.i18n.getMessage("previewTabCount", [
+                        String(g.tabCount),
+                      ])}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        {PHASE_BUTTONS.map(({ labelKey, phases }) => (
+          <button
+            key={labelKey}
+            onClick={() => run(phases)}
+            disabled={running}
+            className="px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {chrome.i18n.getMessage(labelKey)}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => chrome.runtime.openOptionsPage()}
+        className="mt-3 w-full text-blue-600 hover:underline cursor-pointer"
+      >
+        {chrome.i18n.getMessage("popupOpenOptions")}
+      </button>
+    </div>
+  );
+}
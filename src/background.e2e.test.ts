@@ -693,6 +693,31 @@ describe("TabGrouping E2E Auto-Delete Integration Tests", () => {
 
     expect(mockChrome.tabs.group).not.toHaveBeenCalled();
   });
+
+  it("E2E: discard rule unloads tabs in collapsed groups without closing them", async () => {
+    mockChrome.storage.local.get.mockResolvedValue({
+      rules: [{ domain: "docs.com", discard: { onlyCollapsedGroups: true } }],
+      grouping: { byWindow: false },
+    });
+
+    const tabs = [
+      mkTab(1, "https://docs.com/a", { groupId: 101, index: 0 }),
+      mkTab(2, "https://docs.com/b", { groupId: 101, index: 1 }),
+      mkTab(3, "https://docs.com/c", { index: 2 }),
+    ];
+
+    mockState.currentTabs = tabs;
+    mockState.currentGroups = new Map([
+      [101, mkGroup(101, "docs.com", { collapsed: true })],
+    ]);
+
+    await controller.execute();
+
+    const discardedIds = mockChrome.tabs.discard.mock.calls.map((c) => c[0]);
+    expect(discardedIds.sort()).toEqual([1, 2]);
+    expect(mockChrome.tabs.remove).not.toHaveBeenCalled();
+    expect(mockState.currentTabs.map((t) => t.id).sort()).toEqual([1, 2, 3]);
+  });
 });
 
 describe("TabGrouping E2E Deduplication Integration Tests", () => {
@@ -793,6 +818,176 @@ describe("TabGrouping E2E Deduplication Integration Tests", () => {
     expect(removedIds).not.toContain(20);
   });
 
+  it("E2E: closed duplicates are archived with their group and window", async () => {
+    mockChrome.storage.local.get.mockResolvedValue({
+      rules: [],
+      grouping: { byWindow: false },
+    });
+
+    const tabs = [
+      mkTab(1, "https://a.com/page", { index: 0, windowId: 1 }),
+      mkTab(2, "https://a.com/page", {
+        groupId: 101,
+        index: 1,
+        windowId: 1,
+        title: "A page",
+      }),
+    ];
+
+    mockState.currentTabs = tabs;
+    mockState.currentGroups = new Map([
+      [101, mkGroup(101, "Reading", { windowId: 1 })],
+    ]);
+
+    await controller.execute();
+
+    const archiveWrite = mockChrome.storage.local.set.mock.calls.find(
+      (c) => "archive" in c[0],
+    );
+    expect(archiveWrite?.[0].archive).toEqual([
+      expect.objectContaining({
+        url: "https://a.com/page",
+        title: "A page",
+        groupTitle: "Reading",
+        windowId: 1,
+      }),
+    ]);
+  });
+
+  it("E2E: undoLastRun restores order, grouping and closed tabs from the snapshot", async () => {
+    mockChrome.storage.local.get.mockResolvedValue({
+      rules: [],
+      grouping: { byWindow: false },
+    });
+
+    const urls = [
+      "https://b.com/1",
+      "https://a.com/1",
+      "https://a.com/2",
+      "https://b.com/2",
+      "https://a.com/1",
+    ];
+    mockState.currentTabs = urls.map((url, i) =>
+      mkTab(i + 1, url, { index: i, windowId: 1 }),
+    );
+    mockState.currentGroups = new Map();
+
+    await controller.execute();
+    expect(mockState.currentTabs).toHaveLength(4);
+    expect(mockState.currentTabs.some((t) => t.groupId !== -1)).toBe(true);
+
+    expect(await controller.undoLastRun()).toBe(true);
+
+    const restored = [...mockState.currentTabs].sort(
+      (a, b) => a.index - b.index,
+    );
+    expect(restored.map((t) => t.url)).toEqual(urls);
+    expect(restored.every((t) => t.groupId === -1)).toBe(true);
+    expect(await controller.undoLastRun()).toBe(false);
+  });
+
+  it("E2E: preview reports the run's changes without touching the browser", async () => {
+    mockChrome.storage.local.get.mockResolvedValue({
+      rules: [{ domain: "news.com", autoDelete: true }],
+      grouping: { byWindow: false },
+    });
+
+    mockState.currentTabs = [
+      mkTab(1, "https://b.com/1", { index: 0, windowId: 1 }),
+      mkTab(2, "https://a.com/1", { index: 1, windowId: 1 }),
+      mkTab(3, "https://a.com/2", { index: 2, windowId: 1 }),
+      mkTab(4, "https://b.com/2", { index: 3, windowId: 1 }),
+      mkTab(5, "https://a.com/1", { index: 4, windowId: 1 }),
+      mkTab(6, "https://news.com/x", { index: 0, windowId: 2 }),
+      mkTab(7, "https://c.com/1", { groupId: 101, index: 1, windowId: 2 }),
+    ];
+    mockState.currentGroups = new Map([
+      [101, mkGroup(101, "c.com", { windowId: 2 })],
+    ]);
+    mockChrome.windows.getAll.mockResolvedValue([
+      { id: 1, type: "normal" },
+      { id: 2, type: "normal" },
+    ]);
+
+    const preview = await controller.preview();
+
+    expect(preview.toClose.map((t) => t.id).sort()).toEqual([5, 6]);
+    expect(preview.windowMoves.map((t) => t.id)).toEqual([7]);
+    expect(preview.groupsCreated.map((g) => g.title).sort()).toEqual([
+      "a.com",
+      "b.com",
+    ]);
+    expect(preview.groupsDissolved).toEqual(["c.com"]);
+    expect(preview.reorderCount).toBeGreaterThan(0);
+
+    expect(mockChrome.tabs.remove).not.toHaveBeenCalled();
+    expect(mockChrome.tabs.move).not.toHaveBeenCalled();
+    expect(mockChrome.tabs.group).not.toHaveBeenCalled();
+    expect(mockChrome.tabGroups.update).not.toHaveBeenCalled();
+
+    // The real run matches the preview
+    await controller.execute();
+    const liveTitles = new Set(
+      mockState.currentTabs
+        .filter((t) => t.groupId !== -1)
+        .map((t) => mockState.currentGroups.get(t.groupId)?.title),
+    );
+    expect([...liveTitles].sort()).toEqual(["a.com", "b.com"]);
+    expect(mockState.currentTabs.every((t) => t.windowId === 1)).toBe(true);
+    mockChrome.windows.getAll.mockResolvedValue([{ id: 1, type: "normal" }]);
+  });
+
+  it("E2E: preview counts single-tab ungrouping and the internal pre-sort", async () => {
+    mockChrome.storage.local.get.mockResolvedValue({
+      rules: [],
+      grouping: { byWindow: false, ungroupSingleTab: true },
+    });
+
+    mockState.currentTabs = [
+      mkTab(1, "https://a.com/1", { groupId: 101, index: 0, windowId: 1 }),
+      mkTab(2, "https://b.com/1", { index: 1, windowId: 1 }),
+      mkTab(3, "chrome://settings", { index: 2, windowId: 1 }),
+    ];
+    mockState.currentGroups = new Map([
+      [101, mkGroup(101, "My Manual Group", { windowId: 1 })],
+    ]);
+
+    const preview = await controller.preview();
+
+    expect(preview.groupsDissolved).toEqual(["My Manual Group"]);
+    expect(preview.reorderCount).toBe(1);
+    expect(mockChrome.tabs.ungroup).not.toHaveBeenCalled();
+    expect(mockChrome.tabs.move).not.toHaveBeenCalled();
+  });
+
+  it("E2E: dedupKeepPolicy keeps the active tab and the manual-group copy", async () => {
+    mockChrome.storage.local.get.mockResolvedValue({
+      rules: [],
+      grouping: {
+        byWindow: false,
+        dedupKeepPolicy: ["active", "protectedGroup"],
+      },
+    });
+
+    const tabs = [
+      mkTab(1, "https://a.com/page", { index: 0, windowId: 1 }),
+      mkTab(2, "https://a.com/page", { index: 1, windowId: 1 }),
+      mkTab(3, "https://b.com/page", { index: 2, windowId: 1 }),
+      mkTab(4, "https://b.com/page", { groupId: 101, index: 3, windowId: 1 }),
+    ];
+    tabs[1].active = true;
+
+    mockState.currentTabs = tabs;
+    mockState.currentGroups = new Map([
+      [101, mkGroup(101, "My Manual Group", { windowId: 1 })],
+    ]);
+
+    await controller.execute();
+
+    const removedIds = mockChrome.tabs.remove.mock.calls.flatMap((c) => c[0]);
+    expect(removedIds.sort()).toEqual([1, 3]);
+  });
+
   it("E2E: global single-tab ungrouping immediately ungroups 1-tab groups if enabled", async () => {
     mockChrome.storage.local.get.mockResolvedValue({
       rules: [],
@@ -1,27 +1,51 @@
 import ChromeTabAdapter, { debounce } from "core/ChromeTabAdapter";
+import {
+  DEFAULT_DEDUP_KEEP_POLICY,
+  DEFAULT_RUN_TRIGGERS,
+  DEFAULT_URL_NORMALIZATION,
+  GroupingConfig,
+  RuntimeMessage,
+  asGroupId,
+  asTabId,
+} from "@/types";
 import { TabGroupingService, WindowManagementService } from "utils/grouping";
+import {
+  handleContextMenuClick,
+  registerContextMenus,
+} from "core/contextMenus";
 
 import TabGroupingController from "core/TabGroupingController";
 import startSyncStore from "utils/startSyncStore";
 
+let storePromise: ReturnType<typeof startSyncStore> | null = null;
 let controllerPromise: Promise<TabGroupingController> | null = null;
 
+// Shared with the context menus, which write rules through the same store
+function getStore(): ReturnType<typeof startSyncStore> {
+  if (!storePromise) {
+    storePromise = startSyncStore({
+      rules: [],
+      grouping: {
+        byWindow: false,
+        numWindowsToKeep: 2,
+        ungroupSingleTab: false,
+        autoMode: false,
+        urlNormalization: DEFAULT_URL_NORMALIZATION,
+        dedupKeepPolicy: DEFAULT_DEDUP_KEEP_POLICY,
+      },
+    });
+  }
+  return storePromise;
+}
+
 function getController(): Promise<TabGroupingController> {
   if (!controllerPromise) {
     controllerPromise = (async () => {
-      const store = await startSyncStore({
-        rules: [],
-        grouping: {
-          byWindow: false,
-          numWindowsToKeep: 2,
-          ungroupSingleTab: false,
-        },
-      });
       return new TabGroupingController(
         new TabGroupingService(),
         new WindowManagementService(),
         new ChromeTabAdapter(),
-        store,
+        await getStore(),
       );
     })();
   }
@@ -36,13 +60,162 @@ const handleTabChange = debounce(async () => {
   }
 }, 100);
 
+// Auto mode waits for this much quiet (no new tab events, no drags) before
+// touching tabs, so it never moves a tab out from under the user's cursor.
+const AUTO_MODE_QUIET_MS = 1500;
+// Tab id -> whether it finished loading (which is when it gets deduplicated)
+const pendingAutoTabs = new Map<number, boolean>();
+
+const flushAutoMode = debounce(async () => {
+  const changes = [...pendingAutoTabs].map(([tabId, loaded]) => ({
+    tabId,
+    loaded,
+  }));
+  pendingAutoTabs.clear();
+  try {
+    await (await getController()).autoOrganize(changes);
+  } catch (err) {
+    console.error("Error in auto mode:", err);
+  }
+}, AUTO_MODE_QUIET_MS);
+
+function queueAutoTab(tabId: number | undefined, loaded: boolean) {
+  if (tabId === undefined) return;
+  pendingAutoTabs.set(tabId, loaded || !!pendingAutoTabs.get(tabId));
+  flushAutoMode();
+}
+
+// Moves, attaches and detaches only push the pending flush back
+function postponeAutoMode() {
+  if (pendingAutoTabs.size > 0) flushAutoMode();
+}
+
+const SCHEDULED_RUN_ALARM = "scheduledRun";
+
+// Alarms survive restarts, so one is only recreated when its period changes
+// (recreating it would restart the countdown).
+async function syncRunTriggers(grouping: GroupingConfig | undefined) {
+  const scheduled = grouping?.scheduledRun ?? DEFAULT_RUN_TRIGGERS.scheduledRun;
+  const idle = grouping?.idleRun ?? DEFAULT_RUN_TRIGGERS.idleRun;
+  const alarm = await chrome.alarms.get(SCHEDULED_RUN_ALARM);
+  if (!scheduled.enabled) {
+    if (alarm) await chrome.alarms.clear(SCHEDULED_RUN_ALARM);
+  } else if (alarm?.periodInMinutes !== scheduled.minutes) {
+    await chrome.alarms.create(SCHEDULED_RUN_ALARM, {
+      periodInMinutes: scheduled.minutes,
+    });
+  }
+  if (idle.enabled) chrome.idle.setDetectionInterval(idle.minutes * 60);
+}
+
+async function handleMessage(message: RuntimeMessage): Promise<unknown> {
+  const controller = await getController();
+  switch (message.type) {
+    case "execute":
+      return controller.execute(message.phases);
+    case "analyze":
+      return controller.analyze();
+    case "preview":
+      return controller.preview();
+    case "undoLastRun":
+      return controller.undoLastRun();
+    case "resolveRenameOffer":
+      return controller.resolveRenameOffer(message.groupId, message.accept);
+  }
+}
+
+// Keyboard commands declared under `commands` in the manifests
+const COMMANDS: Record<
+  string,
+  (controller: TabGroupingController) => Promise<unknown>
+> = {
+  "run-all": (c) => c.execute(),
+  dedup: (c) => c.dedup(),
+  "auto-delete": (c) => c.autoDelete(),
+  consolidate: (c) => c.consolidate(),
+  group: (c) => c.group(),
+  sort: (c) => c.sort(),
+  "group-window": (c) => c.groupWindow(),
+  "collapse-others": (c) => c.collapseOtherGroups(),
+  undo: (c) => c.undoLastRun(),
+};
+
 // Must run synchronously on every script (re)start — this is what lets
 // Firefox/Chrome wake a suspended background script for these events.
-chrome.action.onClicked.addListener(async () => {
+chrome.runtime.onMessage.addListener(
+  (message: RuntimeMessage, _sender, sendResponse) => {
+    if (typeof message?.type !== "string") return false;
+    handleMessage(message).then(sendResponse, (err) => {
+      console.error(`Error handling ${message.type}:`, err);
+      sendResponse(null);
+    });
+    return true; // Keeps sendResponse alive for the async reply
+  },
+);
+chrome.commands.onCommand.addListener(async (command) => {
+  const run = COMMANDS[command];
+  if (!run) return;
   try {
-    await (await getController()).execute();
+    await run(await getController());
   } catch (err) {
-    console.error("Error in onClicked:", err);
+    console.error(`Error in command ${command}:`, err);
+  }
+});
+chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+  try {
+    const changed = await handleContextMenuClick(
+      await getStore(),
+      await getController(),
+      String(info.menuItemId),
+      tab,
+      new TabGroupingService(),
+    );
+    // The change shows up at the next badge refresh
+    if (changed) handleTabChange();
+  } catch (err) {
+    console.error(`Error in context menu ${info.menuItemId}:`, err);
+  }
+});
+chrome.runtime.onInstalled.addListener(registerContextMenus);
+if (typeof chrome.tabGroups !== "undefined") {
+  chrome.tabGroups.onRemoved.addListener(async (group) => {
+    try {
+      await (await getController()).forgetManagedGroup(asGroupId(group.id));
+    } catch (err) {
+      console.error("Error forgetting removed group:", err);
+    }
+  });
+  chrome.tabGroups.onUpdated.addListener(async (group) => {
+    try {
+      await (await getController()).handleGroupUpdated(group);
+    } catch (err) {
+      console.error("Error handling group update:", err);
+    }
+  });
+  chrome.tabs.onUpdated.addListener(async (tabId, changeInfo) => {
+    if (changeInfo.groupId === undefined) return;
+    try {
+      await (
+        await getController()
+      ).handleTabGroupChanged(asTabId(tabId)!, changeInfo.groupId);
+    } catch (err) {
+      console.error("Error handling tab group change:", err);
+    }
+  });
+}
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (alarm.name !== SCHEDULED_RUN_ALARM) return;
+  try {
+    await (await getController()).runTrigger("scheduledRun");
+  } catch (err) {
+    console.error("Error in scheduled run:", err);
+  }
+});
+chrome.idle.onStateChanged.addListener(async (newState) => {
+  try {
+    await (await getController()).handleIdleStateChanged(newState);
+  } catch (err) {
+    console.error("Error in idle run:", err);
   }
 });
 chrome.tabs.onCreated.addListener(handleTabChange);
@@ -51,7 +224,25 @@ chrome.tabs.onUpdated.addListener(handleTabChange);
 chrome.tabs.onMoved.addListener(handleTabChange);
 chrome.tabs.onAttached.addListener(handleTabChange);
 chrome.tabs.onDetached.addListener(handleTabChange);
+chrome.tabs.onCreated.addListener((tab) => queueAutoTab(tab.id, false));
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.url) queueAutoTab(tabId, false);
+  if (changeInfo.status === "complete") queueAutoTab(tabId, true);
+});
+chrome.tabs.onRemoved.addListener((tabId) => pendingAutoTabs.delete(tabId));
+chrome.tabs.onMoved.addListener(postponeAutoMode);
+chrome.tabs.onAttached.addListener(postponeAutoMode);
+chrome.tabs.onDetached.addListener(postponeAutoMode);
 
 if (typeof process === "undefined" || process.env.NODE_ENV !== "test") {
   handleTabChange();
+  getController()
+    .then((controller) => controller.reconcileManagedGroups())
+    .catch((err) => console.error("Error reconciling managed groups:", err));
+  getStore()
+    .then(async (store) => {
+      store.onChange((state) => syncRunTriggers(state.grouping));
+      await syncRunTriggers((await store.getState()).grouping);
+    })
+    .catch((err) => console.error("Error syncing run triggers:", err));
 }
@@ -1,3 +1,11 @@
+import {
+  ARCHIVE_LIMIT,
+  ArchivedTab,
+  MembershipPlan,
+  asGroupId,
+  asTabId,
+  asWindowId,
+} from "@/types";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import ChromeTabAdapter from "./ChromeTabAdapter";
@@ -6,10 +14,22 @@ const mockChrome = {
   tabs: {
     query: vi.fn(),
     remove: vi.fn(),
+    discard: vi.fn(),
     group: vi.fn(),
+    create: vi.fn(),
   },
   tabGroups: {
     update: vi.fn(),
+    query: vi.fn(),
+  },
+  windows: {
+    getAll: vi.fn(),
+  },
+  storage: {
+    local: {
+      get: vi.fn(),
+      set: vi.fn(),
+    },
   },
 };
 
@@ -37,6 +57,84 @@ describe("ChromeTabAdapter", () => {
     expect(mockChrome.tabs.remove).toHaveBeenCalledWith([1, 2, 3]);
   });
 
+  it("discards each tab and keeps going past failures", async () => {
+    mockChrome.tabs.discard.mockImplementation(async (id: number) => {
+      if (id === 2) throw new Error("Cannot discard active tab");
+      return { id };
+    });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await adapter.discardTabs([1, 2, 3].map((id) => asTabId(id)!));
+
+    expect(mockChrome.tabs.discard).toHaveBeenCalledWith(1);
+    expect(mockChrome.tabs.discard).toHaveBeenCalledWith(3);
+    expect(warn).toHaveBeenCalledWith("Failed to discard 1/3 tabs");
+    warn.mockRestore();
+  });
+
+  const archived = (id: string, extra: Partial<ArchivedTab> = {}) =>
+    ({
+      id,
+      url: `https://${id}.com/`,
+      title: id,
+      windowId: asWindowId(1),
+      closedAt: 0,
+      ...extra,
+    }) as ArchivedTab;
+
+  it("prepends archived tabs and bounds the archive", async () => {
+    const existing = Array.from({ length: ARCHIVE_LIMIT }, (_, i) =>
+      archived(`old${i}`),
+    );
+    mockChrome.storage.local.get.mockResolvedValue({ archive: existing });
+
+    await adapter.archiveTabs([archived("new")]);
+
+    const saved = mockChrome.storage.local.set.mock.calls[0][0].archive;
+    expect(saved).toHaveLength(ARCHIVE_LIMIT);
+    expect(saved[0].id).toBe("new");
+    expect(saved.at(-1).id).toBe(`old${ARCHIVE_LIMIT - 2}`);
+  });
+
+  it("restores into the original group title and drops restored entries", async () => {
+    const entries = [
+      archived("a", { groupTitle: "Docs", windowId: asWindowId(1) }),
+      archived("b", { groupTitle: "Gone", windowId: asWindowId(9) }),
+    ];
+    mockChrome.windows.getAll.mockResolvedValue([{ id: 1 }]);
+    mockChrome.tabGroups.query.mockResolvedValue([
+      { id: 5, title: "Docs", windowId: 2 },
+      { id: 6, title: "Docs", windowId: 1 },
+    ]);
+    mockChrome.tabs.create
+      .mockResolvedValueOnce({ id: 11, windowId: 1 })
+      .mockResolvedValueOnce({ id: 12, windowId: 1 });
+    mockChrome.storage.local.get.mockResolvedValue({
+      archive: [...entries, archived("c")],
+    });
+
+    await adapter.restoreArchivedTabs(entries);
+
+    expect(mockChrome.tabs.create).toHaveBeenCalledWith({
+      url: "https://a.com/",
+      windowId: 1,
+      active: false,
+    });
+    expect(mockChrome.tabs.create).toHaveBeenCalledWith({
+      url: "https://b.com/",
+      windowId: undefined,
+      active: false,
+    });
+    expect(mockChrome.tabs.group).toHaveBeenCalledTimes(1);
+    expect(mockChrome.tabs.group).toHaveBeenCalledWith({
+      groupId: 6,
+      tabIds: [11],
+    });
+    expect(mockChrome.storage.local.set).toHaveBeenCalledWith({
+      archive: [archived("c")],
+    });
+  });
+
   it("should apply collapsed state in executeMembershipPlan", async () => {
     const plan: any = {
       toUngroup: [],
@@ -60,4 +158,70 @@ describe("ChromeTabAdapter", () => {
       collapsed: true,
     });
   });
+
+  it("applies the group color in executeMembershipPlan", async () => {
+    const plan: MembershipPlan = {
+      toUngroup: [],
+      toGroup: [
+        {
+          tabIds: [asTabId(1)!, asTabId(2)!],
+          groupId: null,
+          title: "github.com",
+          collapsed: false,
+          color: "purple",
+        },
+      ],
+      targetWindowId: asWindowId(1),
+    };
+
+    mockChrome.tabs.group.mockResolvedValue(202);
+
+    await adapter.executeMembershipPlan(plan, []);
+
+    expect(mockChrome.tabGroups.update).toHaveBeenCalledWith(202, {
+      title: "github.com",
+      collapsed: false,
+      color: "purple",
+    });
+  });
+
+  it("only sends a group color that differs from the current one", async () => {
+    const plan: MembershipPlan = {
+      toUngroup: [],
+      toGroup: [
+        {
+          tabIds: [asTabId(1)!, asTabId(2)!],
+          groupId: asGroupId(303),
+          title: "github.com",
+          collapsed: false,
+          color: "purple",
+        },
+      ],
+      targetWindowId: asWindowId(1),
+    };
+    const current = {
+      id: 303,
+      title: "github.com",
+      color: "purple",
+    } as chrome.tabGroups.TabGroup;
+
+    mockChrome.tabs.group.mockResolvedValue(303);
+
+    await adapter.executeMembershipPlan(plan, [], new Map([[303, current]]));
+    expect(mockChrome.tabGroups.update).toHaveBeenCalledWith(303, {
+      title: "github.com",
+      collapsed: false,
+    });
+
+    await adapter.executeMembershipPlan(
+      plan,
+      [],
+      new Map([[303, { ...current, color: "blue" }]]),
+    );
+    expect(mockChrome.tabGroups.update).toHaveBeenLastCalledWith(303, {
+      title: "github.com",
+      collapsed: false,
+      color: "purple",
+    });
+  });
 });
@@ -1,11 +1,18 @@
 import {
+  ARCHIVE_LIMIT,
+  ARCHIVE_STORAGE_KEY,
+  ArchivedTab,
   ConsolidationPlan,
+  GroupId,
   MembershipPlan,
   OrderPlan,
+  RenameOffer,
   Result,
+  RunSnapshot,
   Tab,
   TabId,
   WindowId,
+  asGroupId,
   asTabId,
   isDefined,
 } from "@/types";
@@ -117,6 +124,13 @@ function validateTab(tab: unknown): tab is Tab {
 
 export default class ChromeTabAdapter {
   private readonly MAX_BATCH = 100;
+  private readonly SNAPSHOT_KEY = "lastRunSnapshot";
+  private readonly MANAGED_GROUPS_KEY = "managedGroups";
+  private readonly EXCEPTIONS_KEY = "groupingExceptions";
+  private readonly RENAME_OFFERS_KEY = "renameOffers";
+  private readonly TAB_GROUP_IDS_KEY = "tabGroupIds";
+  private readonly IDLE_STATE_KEY = "idleState";
+  private sessionUpdates: Promise<void> = Promise.resolve();
 
   async getNormalTabs(): Promise<Tab[]> {
     const result = await retry(async () => {
@@ -176,6 +190,366 @@ export default class ChromeTabAdapter {
     }
   }
 
+  async getArchive(): Promise<ArchivedTab[]> {
+    const result = await retry(() =>
+      chrome.storage.local.get(ARCHIVE_STORAGE_KEY),
+    );
+    if (result.success === false) {
+      console.error("Failed to read archive:", result.error);
+      return [];
+    }
+    const archive = result.value[ARCHIVE_STORAGE_KEY];
+    return Array.isArray(archive) ? archive : [];
+  }
+
+  /**
+   * Prepends closed tabs to the archive, dropping the oldest past ARCHIVE_LIMIT.
+   */
+  async archiveTabs(entries: ArchivedTab[]): Promise<void> {
+    if (entries.length === 0) return;
+    const archive = [...entries, ...(await this.getArchive())];
+    const r = await retry(() =>
+      chrome.storage.local.set({
+        [ARCHIVE_STORAGE_KEY]: archive.slice(0, ARCHIVE_LIMIT),
+      }),
+    );
+    if (r.success === false)
+      console.warn(`Failed to archive ${entries.length} tabs:`, r.error);
+  }
+
+  async removeFromArchive(ids: string[]): Promise<void> {
+    const drop = new Set(ids);
+    const archive = await this.getArchive();
+    await retry(() =>
+      chrome.storage.local.set({
+        [ARCHIVE_STORAGE_KEY]: archive.filter((e) => !drop.has(e.id)),
+      }),
+    );
+  }
+
+  /**
+   * Reopens archived tabs in their original window (or the current one if it is gone)
+   * and back into a group with the original title when one still exists.
+   */
+  async restoreArchivedTabs(entries: ArchivedTab[]): Promise<void> {
+    const windowIds = new Set(
+      (await this.getAllNormalWindows()).map((w) => w.id),
+    );
+    const groupsResult = await retry(() => chrome.tabGroups.query({}));
+    const groups = groupsResult.success ? groupsResult.value : [];
+
+    const restored: string[] = [];
+    for (const entry of entries) {
+      const created = await retry(() =>
+        chrome.tabs.create({
+          url: entry.url,
+          windowId: windowIds.has(entry.windowId) ? entry.windowId : undefined,
+          active: false,
+        }),
+      );
+      if (created.success === false || created.value.id === undefined) {
+        console.warn(`Failed to restore ${entry.url}`);
+        continue;
+      }
+      restored.push(entry.id);
+
+      const tab = created.value;
+      const matches = groups.filter((g) => g.title === entry.groupTitle);
+      const group =
+        matches.find((g) => g.windowId === tab.windowId) ?? matches[0];
+      if (entry.groupTitle && group) {
+        await retry(() =>
+          chrome.tabs.group({ groupId: group.id, tabIds: [tab.id!] }),
+        );
+      }
+    }
+    await this.removeFromArchive(restored);
+  }
+
+  async saveSnapshot(snapshot: RunSnapshot): Promise<void> {
+    // storage.session is missing on older Firefox; undo is simply unavailable there
+    if (typeof chrome.storage?.session === "undefined") return;
+    const r = await retry(() =>
+      chrome.storage.session.set({ [this.SNAPSHOT_KEY]: snapshot }),
+    );
+    if (r.success === false) console.warn("Failed to save snapshot:", r.error);
+  }
+
+  async loadSnapshot(): Promise<RunSnapshot | null> {
+    if (typeof chrome.storage?.session === "undefined") return null;
+    const r = await retry(() => chrome.storage.session.get(this.SNAPSHOT_KEY));
+    if (r.success === false) return null;
+    return (r.value[this.SNAPSHOT_KEY] as RunSnapshot | undefined) ?? null;
+  }
+
+  async clearSnapshot(): Promise<void> {
+    if (typeof chrome.storage?.session === "undefined") return;
+    await retry(() => chrome.storage.session.remove(this.SNAPSHOT_KEY));
+  }
+
+  private async loadSessionList<T>(key: string): Promise<T[] | null> {
+    if (typeof chrome.storage?.session === "undefined") return null;
+    const r = await retry(() => chrome.storage.session.get(key));
+    if (r.success === false) return null;
+    const items = r.value[key];
+    return Array.isArray(items) ? (items as T[]) : null;
+  }
+
+  /**
+   * Read-modify-write of a list in storage.session. Updates are chained so a
+   * run recording state and an event listener changing it can't overwrite
+   * each other. `update` returns null to leave the list untouched.
+   */
+  private updateSessionList<T>(
+    key: string,
+    update: (items: T[] | null) => Iterable<T> | null,
+  ): Promise<void> {
+    const next = this.sessionUpdates.then(async () => {
+      if (typeof chrome.storage?.session === "undefined") return;
+      const items = update(await this.loadSessionList<T>(key));
+      if (items === null) return;
+      const r = await retry(() =>
+        chrome.storage.session.set({ [key]: [...items] }),
+      );
+      if (r.success === false) console.warn(`Failed to save ${key}:`, r.error);
+    });
+    this.sessionUpdates = next.catch(() => {});
+    return next;
+  }
+
+  /**
+   * IDs of the groups the extension created or adopted. Group IDs only live as
+   * long as the browser session, hence storage.session. Null until the
+   * registry is first seeded (see `reconcileManagedGroups`).
+   */
+  async loadManagedGroups(): Promise<Set<GroupId> | null> {
+    const ids = await this.loadSessionList<GroupId>(this.MANAGED_GROUPS_KEY);
+    return ids && new Set(ids);
+  }
+
+  updateManagedGroups(
+    update: (ids: Set<GroupId> | null) => Iterable<GroupId> | null,
+  ): Promise<void> {
+    return this.updateSessionList<GroupId>(this.MANAGED_GROUPS_KEY, (ids) => {
+      const next = update(ids && new Set(ids));
+      return next && new Set(next);
+    });
+  }
+
+  /** Tabs the user dragged out of a managed group. */
+  async loadGroupingExceptions(): Promise<Set<TabId>> {
+    return new Set(await this.loadSessionList<TabId>(this.EXCEPTIONS_KEY));
+  }
+
+  updateGroupingExceptions(
+    update: (ids: Set<TabId>) => Iterable<TabId>,
+  ): Promise<void> {
+    return this.updateSessionList<TabId>(
+      this.EXCEPTIONS_KEY,
+      (ids) => new Set(update(new Set(ids))),
+    );
+  }
+
+  /**
+   * Last known group of each tab. Kept in storage.session so a drag-out that
+   * wakes a suspended background script still knows where the tab came from.
+   */
+  async loadTabGroupIds(): Promise<Map<TabId, number>> {
+    return new Map(
+      await this.loadSessionList<[TabId, number]>(this.TAB_GROUP_IDS_KEY),
+    );
+  }
+
+  saveTabGroupIds(tabGroupIds: ReadonlyMap<TabId, number>): Promise<void> {
+    return this.updateSessionList<[TabId, number]>(
+      this.TAB_GROUP_IDS_KEY,
+      () => [...tabGroupIds],
+    );
+  }
+
+  /**
+   * Last `chrome.idle` state seen. Kept in storage.session so an idle event
+   * that wakes a suspended background script still knows the previous state.
+   */
+  async loadIdleState(): Promise<`${chrome.idle.IdleState}` | null> {
+    if (typeof chrome.storage?.session === "undefined") return null;
+    const r = await retry(() =>
+      chrome.storage.session.get(this.IDLE_STATE_KEY),
+    );
+    if (r.success === false) return null;
+    return (
+      (r.value[this.IDLE_STATE_KEY] as
+        | `${chrome.idle.IdleState}`
+        | undefined) ?? null
+    );
+  }
+
+  async saveIdleState(state: `${chrome.idle.IdleState}`): Promise<void> {
+    if (typeof chrome.storage?.session === "undefined") return;
+    await retry(() =>
+      chrome.storage.session.set({ [this.IDLE_STATE_KEY]: state }),
+    );
+  }
+
+  async loadRenameOffers(): Promise<RenameOffer[]> {
+    return (
+      (await this.loadSessionList<RenameOffer>(this.RENAME_OFFERS_KEY)) ?? []
+    );
+  }
+
+  updateRenameOffers(
+    update: (offers: RenameOffer[]) => RenameOffer[],
+  ): Promise<void> {
+    return this.updateSessionList<RenameOffer>(
+      this.RENAME_OFFERS_KEY,
+      (offers) => update(offers ?? []),
+    );
+  }
+
+  async retitleGroup(groupId: GroupId, title: string): Promise<void> {
+    if (typeof chrome.tabGroups === "undefined") return;
+    const r = await retry(() =>
+      chrome.tabGroups.update(groupId as number, { title }),
+    );
+    if (r.success === false)
+      console.warn(`Failed to retitle group ${groupId}:`, r.error);
+  }
+
+  /**
+   * Best-effort return to a snapshot: reopens closed tabs (and windows emptied by
+   * consolidation), restores pinning and positions, then group membership and
+   * group title/color/collapsed state. Recreated tabs and groups get new IDs.
+   */
+  async restoreSnapshot(snapshot: RunSnapshot): Promise<void> {
+    const liveTabs = new Map(
+      (await this.getNormalTabs()).map((t) => [t.id as number, t]),
+    );
+    const liveGroups = new Map(
+      (await this.getGroups()).map((g) => [g.id as number, g]),
+    );
+    const closed = new Set<number>(snapshot.closedTabIds);
+    const tabIds = new Map<number, number>(); // snapshot tab → live tab
+    const windowIds = new Map<number, number>(); // snapshot window → live window
+    for (const w of await this.getAllNormalWindows()) {
+      if (w.id !== undefined) windowIds.set(w.id, w.id);
+    }
+    const ordered = [...snapshot.tabs].sort(
+      (a, b) => a.windowId - b.windowId || a.index - b.index,
+    );
+    for (const t of ordered) {
+      if (liveTabs.has(t.id)) tabIds.set(t.id, t.id);
+    }
+
+    // 1. Reopen closed tabs, recreating windows that no longer exist
+    for (const t of ordered) {
+      const liveId = tabIds.get(t.id);
+      if (liveId === undefined && !closed.has(t.id)) continue;
+      const windowId = windowIds.get(t.windowId);
+      if (windowId === undefined) {
+        const r = await retry(() =>
+          chrome.windows.create(
+            liveId !== undefined ? { tabId: liveId } : { url: t.url },
+          ),
+        );
+        if (r.success === false || r.value?.id === undefined) continue;
+        windowIds.set(t.windowId, r.value.id);
+        const firstTabId = r.value.tabs?.[0]?.id;
+        if (liveId === undefined && firstTabId !== undefined)
+          tabIds.set(t.id, firstTabId);
+      } else if (liveId === undefined) {
+        const r = await retry(() =>
+          chrome.tabs.create({
+            url: t.url,
+            windowId,
+            index: t.index,
+            pinned: t.pinned,
+            active: false,
+          }),
+        );
+        if (r.success && r.value.id !== undefined) tabIds.set(t.id, r.value.id);
+      }
+    }
+
+    // 2. Pinning and positions; ungroup first so moves don't drag groups along
+    const toUngroup = ordered
+      .filter((t) => t.groupId === null)
+      .map((t) => tabIds.get(t.id))
+      .filter(isDefined);
+    if (toUngroup.length > 0 && typeof chrome.tabs.ungroup !== "undefined") {
+      await retry(() =>
+        chrome.tabs.ungroup(toUngroup as [number, ...number[]]),
+      );
+    }
+    for (const t of ordered) {
+      const id = tabIds.get(t.id);
+      const windowId = windowIds.get(t.windowId);
+      if (id === undefined || windowId === undefined) continue;
+      if (liveTabs.has(id) && liveTabs.get(id)!.pinned !== t.pinned) {
+        await retry(() => chrome.tabs.update(id, { pinned: t.pinned }));
+      }
+      await retry(() => chrome.tabs.move(id, { windowId, index: t.index }));
+    }
+
+    // 3. Group membership and appearance
+    const restoredManaged: GroupId[] = [];
+    for (const g of snapshot.groups) {
+      const ids = ordered
+        .filter((t) => t.groupId === g.id)
+        .map((t) => tabIds.get(t.id))
+        .filter(isDefined);
+      const windowId = windowIds.get(g.windowId);
+      if (ids.length === 0 || windowId === undefined) continue;
+      const options: chrome.tabs.GroupOptions = {
+        tabIds: ids as [number, ...number[]],
+      };
+      if (liveGroups.get(g.id)?.windowId === windowId) {
+        options.groupId = g.id as number;
+      } else {
+        options.createProperties = { windowId };
+      }
+      const r = await retry(() => chrome.tabs.group(options));
+      if (r.success === false) continue;
+      if (g.managed) restoredManaged.push(asGroupId(r.value));
+      await retry(() =>
+        chrome.tabGroups.update(r.value, {
+          title: g.title,
+          color: g.color,
+          collapsed: g.collapsed,
+        }),
+      );
+    }
+    if (restoredManaged.length > 0) {
+      await this.updateManagedGroups(
+        (ids) => ids && [...ids, ...restoredManaged],
+      );
+    }
+  }
+
+  async discardTabs(tabIds: TabId[]): Promise<void> {
+    if (typeof chrome.tabs.discard === "undefined") return;
+    for (const batch of this.batch(tabIds)) {
+      // discard() takes a single tab, so a batch is issued concurrently
+      const results = await Promise.all(
+        batch.map((id) => retry(() => chrome.tabs.discard(id as number))),
+      );
+      const failed = results.filter((r) => r.success === false).length;
+      if (failed > 0)
+        console.warn(`Failed to discard ${failed}/${batch.length} tabs`);
+    }
+  }
+
+  async collapseGroups(groupIds: GroupId[]): Promise<void> {
+    if (typeof chrome.tabGroups === "undefined") return;
+    const results = await Promise.all(
+      groupIds.map((id) =>
+        retry(() => chrome.tabGroups.update(id as number, { collapsed: true })),
+      ),
+    );
+    const failed = results.filter((r) => r.success === false).length;
+    if (failed > 0)
+      console.warn(`Failed to collapse ${failed}/${groupIds.length} groups`);
+  }
+
   async applyInternalPageMoves(
     moves: { tabId: TabId; targetIndex: number }[],
   ): Promise<void> {
@@ -186,31 +560,15 @@ export default class ChromeTabAdapter {
     }
   }
 
-  async ungroupSingleTabGroups(tabs: Tab[]): Promise<void> {
+  async ungroupTabs(tabIds: TabId[]): Promise<void> {
     if (typeof chrome.tabs.ungroup === "undefined") return;
-    const groupCounts = new Map<number, number>();
-    const groupIds = new Set<number>();
-    for (const tab of tabs) {
-      if ((tab.groupId ?? -1) !== -1 && tab.groupId !== undefined) {
-        groupCounts.set(tab.groupId, (groupCounts.get(tab.groupId) || 0) + 1);
-        groupIds.add(tab.groupId);
-      }
-    }
-
-    const toUngroup: number[] = [];
-    for (const tab of tabs) {
-      if (tab.id && (tab.groupId ?? -1) !== -1 && tab.groupId !== undefined) {
-        if (groupCounts.get(tab.groupId) === 1) {
-          toUngroup.push(tab.id);
-        }
-      }
-    }
-
-    for (const batch of this.batch(toUngroup)) {
+    for (const batch of this.batch(tabIds)) {
       if (batch.length === 0) continue;
       await retry(async () => {
         await chrome.tabs.ungroup(
-          batch.length === 1 ? batch[0] : (batch as [number, ...number[]]),
+          batch.length === 1
+            ? (batch[0] as number)
+            : (batch as unknown as [number, ...number[]]),
         );
       });
     }
@@ -263,11 +621,18 @@ export default class ChromeTabAdapter {
     });
   }
 
+  /**
+   * `groups` are the live groups the plan was made from; a group's color is
+   * only sent when it differs, so managed groups aren't rewritten every run.
+   */
   async executeMembershipPlan(
     plan: MembershipPlan,
     snapshotTabs: Tab[],
+    groups: ReadonlyMap<number, chrome.tabGroups.TabGroup> = new Map(),
   ): Promise<Result<void, Error>> {
     return this.toResult(async () => {
+      const grouped: GroupId[] = [];
+
       // 1. Ungroup first
       if (
         typeof chrome.tabs.ungroup !== "undefined" &&
@@ -315,18 +680,27 @@ export default class ChromeTabAdapter {
               options.groupId = entry.groupId as number;
             }
             const gid = await chrome.tabs.group(options);
+            if (!entry.isExternal) grouped.push(asGroupId(gid));
 
             if (typeof chrome.tabGroups !== "undefined") {
               const updateData: chrome.tabGroups.UpdateProperties = {
                 collapsed: entry.collapsed,
               };
               if (entry.title) updateData.title = entry.title;
+              if (entry.color && entry.color !== groups.get(gid)?.color) {
+                updateData.color = entry.color;
+              }
 
               await chrome.tabGroups.update(gid, updateData);
             }
           }, snapshotTabs);
         }
       }
+
+      // 3. Record ownership; an unseeded registry stays on title matching
+      if (grouped.length > 0) {
+        await this.updateManagedGroups((ids) => ids && [...ids, ...grouped]);
+      }
     });
   }
 
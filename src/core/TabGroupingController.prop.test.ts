@@ -36,7 +36,7 @@ describe("TabGroupingController Stability & Invariants (Snapshot-Based)", () =>
       (globalThis as any).crypto = crypto;
     service = new TabGroupingService();
     windowService = new WindowManagementService();
-    mockStore = { getState: vi.fn() };
+    mockStore = { getState: vi.fn(), setState: vi.fn() };
 
     // Reset global chrome mock
     const currentMockChrome = {
@@ -1,4 +1,4 @@
-import { Tab, asTabId, asWindowId } from "@/types";
+import { Tab, asGroupId, asTabId, asWindowId } from "@/types";
 import { TabGroupingService, WindowManagementService } from "utils/grouping";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
@@ -12,6 +12,7 @@ import { mkTab } from "./test-utils";
 
 let currentTabs: Tab[] = [];
 let currentGroups = new Map<number, chrome.tabGroups.TabGroup>();
+let sessionStorage = new Map<string, unknown>();
 
 const mockChrome = {
   runtime: {
@@ -26,6 +27,23 @@ const mockChrome = {
       }),
       set: vi.fn().mockResolvedValue(undefined),
     },
+    session: {
+      get: vi
+        .fn()
+        .mockImplementation((key: string) =>
+          Promise.resolve(
+            sessionStorage.has(key) ? { [key]: sessionStorage.get(key) } : {},
+          ),
+        ),
+      set: vi.fn().mockImplementation((data: Record<string, unknown>) => {
+        for (const [k, v] of Object.entries(data)) sessionStorage.set(k, v);
+        return Promise.resolve();
+      }),
+      remove: vi.fn().mockImplementation((key: string) => {
+        sessionStorage.delete(key);
+        return Promise.resolve();
+      }),
+    },
     onChanged: { addListener: vi.fn(), removeListener: vi.fn() },
   },
   action: {
@@ -120,6 +138,7 @@ const mockStore = {
     rules: [],
     grouping: { byWindow: false, numWindowsToKeep: 2, ungroupSingleTab: false },
   }),
+  setState: vi.fn().mockResolvedValue(undefined),
 };
 vi.mock("../utils/startSyncStore.js", () => ({
   default: vi.fn().mockResolvedValue({
@@ -144,6 +163,7 @@ describe("TabGroupingController", () => {
     vi.clearAllMocks();
     currentTabs = [];
     currentGroups = new Map();
+    sessionStorage = new Map();
 
     service = new TabGroupingService();
     windowService = new WindowManagementService();
@@ -257,6 +277,29 @@ describe("TabGroupingController", () => {
       expect(removedIds).not.toContain(1);
     });
 
+    it("Blank Tabs: keeps only the active new-tab page per window", async () => {
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: { byWindow: true, blankTabCleanup: "keepActive" },
+      });
+
+      currentTabs = [
+        mkTab(1, "chrome://newtab/", { index: 0, windowId: 1 }),
+        { ...mkTab(2, "about:blank", { index: 1, windowId: 1 }), active: true },
+        mkTab(3, "about:newtab", { index: 2, windowId: 1 }),
+        mkTab(4, "https://keep.com/", { index: 3, windowId: 1 }),
+      ];
+
+      await controller.execute();
+
+      const removedIds = mockChrome.tabs.remove.mock.calls.flatMap(
+        (call) => call[0],
+      );
+      expect(removedIds).toEqual(expect.arrayContaining([1, 3]));
+      expect(removedIds).not.toContain(2);
+      expect(removedIds).not.toContain(4);
+    });
+
     it("Single-Tab Ungroup: immediately ungroups 1-tab groups if enabled", async () => {
       vi.mocked(mockStore.getState).mockResolvedValue({
         rules: [],
@@ -371,6 +414,498 @@ describe("TabGroupingController", () => {
         expect.objectContaining({ text: "2" }),
       );
     });
+
+    it("counts surplus blank pages as closures", async () => {
+      currentTabs = [
+        mkTab(1, "chrome://newtab/"),
+        mkTab(2, "about:blank"),
+        mkTab(3, "https://google.com/1"),
+      ];
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: { byWindow: true, blankTabCleanup: "keepOne" },
+      });
+
+      await controller.updateBadge();
+      expect(mockChrome.action.setBadgeText).toHaveBeenCalledWith(
+        expect.objectContaining({ text: "1" }),
+      );
+    });
+
+    it("does not count blank pages in protected groups", async () => {
+      currentTabs = [
+        mkTab(1, "chrome://newtab/"),
+        mkTab(2, "about:blank", { groupId: 8, index: 1 }),
+        mkTab(3, "https://google.com/1", { groupId: 8, index: 2 }),
+      ];
+      currentGroups.set(8, {
+        id: 8,
+        title: "Reading",
+        windowId: 1,
+      } as chrome.tabGroups.TabGroup);
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: {
+          byWindow: true,
+          blankTabCleanup: "keepOne",
+          protectedGroupTitles: ["Reading"],
+        },
+      });
+
+      expect((await controller.analyze()).closeCount).toBe(0);
+    });
+  });
+
+  describe("analyze()", () => {
+    it("reports closures, pending grouping and window counts", async () => {
+      currentTabs = [
+        mkTab(1, "https://google.com/1"),
+        mkTab(2, "https://google.com/1"), // Duplicate
+        mkTab(3, "https://google.com/2"),
+      ];
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: { byWindow: true, numWindowsToKeep: 2 },
+      });
+
+      const analysis = await controller.analyze();
+      expect(analysis.closeCount).toBe(1);
+      expect(analysis.pendingGroupingCount).toBeGreaterThan(0);
+      expect(analysis.windowCount).toBe(1);
+      expect(analysis.numWindowsToKeep).toBe(2);
+      expect(analysis.currentWindowGroups).toEqual([]);
+    });
+  });
+
+  describe("execute() phases", () => {
+    it("only runs the requested phases", async () => {
+      currentTabs = [
+        mkTab(1, "https://google.com/1"),
+        mkTab(2, "https://google.com/1"), // Duplicate
+        mkTab(3, "https://google.com/2"),
+      ];
+
+      await controller.execute(["group"]);
+      expect(mockChrome.tabs.remove).not.toHaveBeenCalled();
+      expect(mockChrome.tabs.group).toHaveBeenCalled();
+
+      vi.clearAllMocks();
+      await controller.dedup();
+      expect(mockChrome.tabs.remove).toHaveBeenCalled();
+      expect(mockChrome.tabs.group).not.toHaveBeenCalled();
+    });
+
+    it("separates deduplication from auto-delete", async () => {
+      currentTabs = [
+        mkTab(1, "https://google.com/1"),
+        mkTab(2, "https://google.com/1"), // Duplicate
+        mkTab(3, "https://trash.com/1"), // To delete
+      ];
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [{ domain: "trash.com", autoDelete: true }],
+        grouping: { byWindow: true },
+      });
+
+      await controller.autoDelete();
+      expect(currentTabs.map((t) => t.id)).toEqual([1, 2]);
+
+      await controller.dedup();
+      expect(currentTabs.map((t) => t.id)).toEqual([1]);
+    });
+
+    it("sorts without changing group membership", async () => {
+      currentTabs = [
+        mkTab(1, "https://b.com/1"),
+        mkTab(2, "https://a.com/1"),
+        mkTab(3, "https://b.com/2"),
+      ];
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: { byWindow: true },
+      });
+
+      await controller.sort();
+      expect(mockChrome.tabs.group).not.toHaveBeenCalled();
+      expect(mockChrome.tabs.ungroup).not.toHaveBeenCalled();
+      expect(currentTabs.every((t) => t.groupId === -1)).toBe(true);
+    });
+  });
+
+  describe("keyboard command operations", () => {
+    it("groupWindow() leaves other windows alone", async () => {
+      mockChrome.windows.getAll.mockResolvedValue([
+        { id: 1, type: "normal" },
+        { id: 2, type: "normal" },
+      ]);
+      currentTabs = [
+        mkTab(1, "https://google.com/1", { windowId: 1, index: 0 }),
+        mkTab(2, "https://google.com/2", { windowId: 1, index: 1 }),
+        mkTab(3, "https://google.com/3", { windowId: 2, index: 0 }),
+        mkTab(4, "https://google.com/4", { windowId: 2, index: 1 }),
+      ];
+
+      await controller.groupWindow();
+
+      const byId = new Map(currentTabs.map((t) => [t.id, t]));
+      expect(byId.get(1)!.groupId).toBe(byId.get(2)!.groupId);
+      expect(byId.get(1)!.groupId).not.toBe(-1);
+      expect(byId.get(3)).toMatchObject({ windowId: 2, groupId: -1 });
+      expect(byId.get(4)).toMatchObject({ windowId: 2, groupId: -1 });
+    });
+
+    it("collapseOtherGroups() keeps the active tab's group open", async () => {
+      currentTabs = [
+        { ...mkTab(1, "https://a.com/1", { groupId: 10 }), active: true },
+        mkTab(2, "https://b.com/1", { groupId: 11 }),
+        mkTab(3, "https://c.com/1", { groupId: 12, windowId: 2 }),
+      ];
+      for (const [id, windowId] of [
+        [10, 1],
+        [11, 1],
+        [12, 2],
+      ]) {
+        currentGroups.set(id, {
+          id,
+          windowId,
+          collapsed: false,
+        } as chrome.tabGroups.TabGroup);
+      }
+
+      await controller.collapseOtherGroups();
+
+      expect(mockChrome.tabGroups.update).toHaveBeenCalledTimes(1);
+      expect(mockChrome.tabGroups.update).toHaveBeenCalledWith(11, {
+        collapsed: true,
+      });
+    });
+  });
+
+  describe("autoOrganize()", () => {
+    beforeEach(() => {
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: { byWindow: true, autoMode: true },
+      });
+    });
+
+    it("does nothing unless auto mode is on", async () => {
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: { byWindow: true },
+      });
+      currentTabs = [
+        mkTab(1, "https://google.com/1"),
+        mkTab(2, "https://google.com/1", { index: 1 }),
+      ];
+
+      await controller.autoOrganize([{ tabId: 2, loaded: true }]);
+      expect(mockChrome.tabs.remove).not.toHaveBeenCalled();
+      expect(mockChrome.tabs.group).not.toHaveBeenCalled();
+    });
+
+    it("does not mute user edits when it had nothing to do", async () => {
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: { byWindow: true },
+      });
+      currentTabs = [mkTab(1, "https://google.com/1", { groupId: 7 })];
+      sessionStorage.set("managedGroups", [7]);
+      await controller.analyze();
+
+      await controller.autoOrganize([{ tabId: 1, loaded: true }]);
+      await controller.handleTabGroupChanged(asTabId(1)!, -1);
+      expect(sessionStorage.get("groupingExceptions")).toEqual([1]);
+    });
+
+    it("slots a new tab into its domain group without reordering", async () => {
+      currentTabs = [
+        mkTab(1, "https://google.com/1", { groupId: 50, index: 0 }),
+        mkTab(2, "https://google.com/2", { groupId: 50, index: 1 }),
+        mkTab(3, "https://other.com/1", { index: 2 }),
+        mkTab(4, "https://google.com/3", { index: 3 }),
+      ];
+      currentGroups.set(50, {
+        id: 50,
+        title: "google.com",
+        windowId: 1,
+      } as chrome.tabGroups.TabGroup);
+
+      await controller.autoOrganize([{ tabId: 4, loaded: false }]);
+
+      expect(mockChrome.tabs.group).toHaveBeenCalledTimes(1);
+      expect(mockChrome.tabs.group).toHaveBeenCalledWith(
+        expect.objectContaining({ groupId: 50, tabIds: 4 }),
+      );
+      expect(mockChrome.tabs.move).not.toHaveBeenCalled();
+      expect(currentTabs.find((t) => t.id === 3)!.groupId).toBe(-1);
+    });
+
+    it("dedups a tab once it has loaded", async () => {
+      currentTabs = [
+        mkTab(1, "https://google.com/1"),
+        mkTab(2, "https://google.com/1", { index: 1 }),
+        mkTab(3, "https://other.com/1", { index: 2 }),
+        mkTab(4, "https://other.com/1", { index: 3 }),
+      ];
+
+      await controller.autoOrganize([{ tabId: 2, loaded: true }]);
+      expect(currentTabs.map((t) => t.id)).toEqual([1, 3, 4]);
+    });
+  });
+
+  describe("runTrigger()", () => {
+    beforeEach(() => {
+      currentTabs = [
+        mkTab(1, "https://google.com/1"),
+        mkTab(2, "https://google.com/1"), // Duplicate
+        mkTab(3, "https://google.com/2"),
+      ];
+    });
+
+    it("runs only the phases configured for the trigger", async () => {
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: {
+          byWindow: true,
+          idleRun: { enabled: true, minutes: 5, phases: ["dedup"] },
+        },
+      });
+
+      await controller.runTrigger("idleRun");
+      expect(mockChrome.tabs.remove).toHaveBeenCalled();
+      expect(mockChrome.tabs.group).not.toHaveBeenCalled();
+    });
+
+    it("keeps the undo snapshot of the user's last run", async () => {
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: {
+          byWindow: true,
+          idleRun: { enabled: true, minutes: 5, phases: ["dedup"] },
+        },
+      });
+
+      await controller.execute(["sort"]);
+      const snapshot = sessionStorage.get("lastRunSnapshot");
+      expect(snapshot).toBeDefined();
+
+      await controller.runTrigger("idleRun");
+      expect(mockChrome.tabs.remove).toHaveBeenCalled();
+      expect(sessionStorage.get("lastRunSnapshot")).toBe(snapshot);
+    });
+
+    it("runs once per absence, even across a worker restart", async () => {
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: {
+          byWindow: true,
+          idleRun: { enabled: true, minutes: 5, phases: ["dedup"] },
+        },
+      });
+
+      await controller.handleIdleStateChanged("idle");
+      expect(mockChrome.tabs.remove).toHaveBeenCalledTimes(1);
+
+      // The worker was suspended; the lock event wakes a new controller
+      const woken = new TabGroupingController(
+        new TabGroupingService(),
+        new WindowManagementService(),
+        new ChromeTabAdapter(),
+        mockStore as unknown as ConstructorParameters<
+          typeof TabGroupingController
+        >[3],
+      );
+      currentTabs.push(mkTab(4, "https://google.com/2"));
+      await woken.handleIdleStateChanged("locked");
+      expect(mockChrome.tabs.remove).toHaveBeenCalledTimes(1);
+
+      await woken.handleIdleStateChanged("active");
+      await woken.handleIdleStateChanged("idle");
+      expect(mockChrome.tabs.remove).toHaveBeenCalledTimes(2);
+    });
+
+    it("does nothing when the trigger is disabled or has no phases", async () => {
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: {
+          byWindow: true,
+          scheduledRun: { enabled: true, minutes: 60, phases: [] },
+        },
+      });
+
+      await controller.runTrigger("scheduledRun");
+      await controller.runTrigger("idleRun"); // Disabled by default
+      expect(mockChrome.tabs.remove).not.toHaveBeenCalled();
+      expect(mockChrome.tabs.group).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("managed group registry", () => {
+    it("seeds from titles once, then leaves look-alike user groups alone", async () => {
+      currentTabs = [
+        mkTab(1, "https://github.com/1", { groupId: 7 }),
+        mkTab(2, "https://github.com/2", { groupId: 7 }),
+      ];
+      currentGroups.set(7, {
+        id: 7,
+        title: "github.com",
+        windowId: 1,
+      } as chrome.tabGroups.TabGroup);
+      await controller.reconcileManagedGroups();
+      expect(sessionStorage.get("managedGroups")).toEqual([7]);
+
+      // The user groups two tabs under a title our rules would also produce
+      currentTabs.push(
+        mkTab(3, "https://a.com/1", { groupId: 8, index: 2 }),
+        mkTab(4, "https://a.com/2", { groupId: 8, index: 3 }),
+      );
+      currentGroups.set(8, {
+        id: 8,
+        title: "a.com",
+        windowId: 1,
+      } as chrome.tabGroups.TabGroup);
+
+      await controller.execute();
+      expect(currentTabs.filter((t) => t.groupId === 8)).toHaveLength(2);
+      expect(currentGroups.get(8)!.title).toBe("a.com");
+      expect(sessionStorage.get("managedGroups")).toEqual([7]);
+    });
+
+    it("records groups it creates and forgets removed ones", async () => {
+      await controller.reconcileManagedGroups();
+      expect(sessionStorage.get("managedGroups")).toEqual([]);
+
+      currentTabs = [
+        mkTab(1, "https://google.com/1"),
+        mkTab(2, "https://google.com/2"),
+      ];
+      await controller.execute();
+      const gid = currentTabs[0].groupId;
+      expect(sessionStorage.get("managedGroups")).toEqual([gid]);
+
+      await controller.forgetManagedGroup(asGroupId(gid));
+      expect(sessionStorage.get("managedGroups")).toEqual([]);
+    });
+  });
+
+  describe("user edits to managed groups", () => {
+    const renamed = {
+      id: 7,
+      title: "Code",
+      windowId: 1,
+    } as chrome.tabGroups.TabGroup;
+
+    beforeEach(() => {
+      currentTabs = [
+        mkTab(1, "https://github.com/1", { groupId: 7 }),
+        mkTab(2, "https://github.com/2", { groupId: 7, index: 1 }),
+      ];
+      currentGroups.set(7, renamed);
+      sessionStorage.set("managedGroups", [7]);
+    });
+
+    const usePolicy = (groupRenamePolicy?: string) =>
+      vi.mocked(mockStore.getState).mockResolvedValue({
+        rules: [],
+        grouping: { byWindow: false, groupRenamePolicy },
+      });
+
+    it("turns a renamed group into a manual group by default", async () => {
+      usePolicy();
+      await controller.handleGroupUpdated(renamed);
+      expect(sessionStorage.get("managedGroups")).toEqual([]);
+
+      await controller.execute();
+      expect(currentGroups.get(7)!.title).toBe("Code");
+      expect(currentTabs.every((t) => t.groupId === 7)).toBe(true);
+    });
+
+    it("restores the generated title under the revert policy", async () => {
+      usePolicy("revert");
+      await controller.handleGroupUpdated(renamed);
+      expect(currentGroups.get(7)!.title).toBe("github.com");
+      expect(sessionStorage.get("managedGroups")).toEqual([7]);
+    });
+
+    it("offers the new title as the rule's group name", async () => {
+      usePolicy("updateRule");
+      await controller.handleGroupUpdated(renamed);
+      expect((await controller.analyze()).renameOffers).toEqual([
+        { groupId: 7, domain: "github.com", title: "Code" },
+      ]);
+
+      await controller.resolveRenameOffer(asGroupId(7), true);
+      expect(mockStore.setState).toHaveBeenCalledWith({
+        rules: [
+          expect.objectContaining({
+            domain: "github.com",
+            groupName: "Code",
+          }),
+        ],
+      });
+      expect(sessionStorage.get("managedGroups")).toEqual([7]);
+      expect(sessionStorage.get("renameOffers")).toEqual([]);
+    });
+
+    it("leaves a tab dragged out of a managed group ungrouped", async () => {
+      usePolicy();
+      currentGroups.set(7, { ...renamed, title: "github.com" });
+      currentTabs.push(
+        mkTab(3, "https://github.com/3", { groupId: 7, index: 2 }),
+      );
+      await controller.analyze();
+
+      currentTabs.find((t) => t.id === 3)!.groupId = -1;
+      await controller.handleTabGroupChanged(asTabId(3)!, -1);
+      expect(sessionStorage.get("groupingExceptions")).toEqual([3]);
+
+      await controller.execute();
+      expect(currentTabs.find((t) => t.id === 3)!.groupId).toBe(-1);
+      expect(currentTabs.filter((t) => t.groupId === 7)).toHaveLength(2);
+    });
+
+    it("takes a tab excluded from the context menu out of its group", async () => {
+      usePolicy();
+      currentGroups.set(7, { ...renamed, title: "github.com" });
+      currentTabs.push(
+        mkTab(3, "https://github.com/3", { groupId: 7, index: 2 }),
+      );
+
+      await controller.excludeTab(asTabId(3)!);
+      await controller.execute();
+      expect(currentTabs.find((t) => t.id === 3)!.groupId).toBe(-1);
+      expect(currentTabs.filter((t) => t.groupId === 7)).toHaveLength(2);
+      expect(mockStore.setState).not.toHaveBeenCalled();
+    });
+
+    it("detects a drag-out that wakes a fresh controller", async () => {
+      usePolicy();
+      currentGroups.set(7, { ...renamed, title: "github.com" });
+      await controller.analyze();
+
+      // The worker was suspended; a new controller sees the drag-out first
+      const woken = new TabGroupingController(
+        new TabGroupingService(),
+        new WindowManagementService(),
+        new ChromeTabAdapter(),
+        mockStore as unknown as ConstructorParameters<
+          typeof TabGroupingController
+        >[3],
+      );
+      currentTabs.find((t) => t.id === 2)!.groupId = -1;
+      await woken.handleTabGroupChanged(asTabId(2)!, -1);
+      expect(sessionStorage.get("groupingExceptions")).toEqual([2]);
+    });
+
+    it("does not except tabs that were never in a managed group", async () => {
+      usePolicy();
+      currentTabs.push(mkTab(3, "https://example.com/3", { index: 2 }));
+      await controller.analyze();
+
+      await controller.handleTabGroupChanged(asTabId(3)!, 9);
+      await controller.handleTabGroupChanged(asTabId(3)!, -1);
+      expect(sessionStorage.get("groupingExceptions") ?? []).toEqual([]);
+    });
   });
 
   describe("State Consistency", () => {
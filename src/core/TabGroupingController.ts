@@ -1,17 +1,36 @@
 import {
+  ArchivedTab,
   BrowserState,
+  CleanupContext,
+  ConsolidationPlan,
+  DEFAULT_RUN_TRIGGERS,
+  GroupId,
   GroupingConfig,
+  MembershipPlan,
+  OrderPlan,
+  OrderingConfig,
+  PreviewTab,
   ProtectedTabMetaMap,
   Result,
+  RUN_PHASES,
   RulesByDomain,
+  RunAnalysis,
+  RunPhase,
+  RunPreview,
+  RunSnapshot,
+  RunTriggerName,
   SyncStore,
   SyncStoreState,
+  TAB_CATEGORIES,
   Tab,
   TabId,
   WindowId,
+  asGroupId,
   asTabId,
   asWindowId,
   isDefined,
+  isGrouped,
+  upsertRule,
   validateRule,
 } from "@/types";
 import { TabGroupingService, WindowManagementService } from "utils/grouping";
@@ -22,7 +41,18 @@ const STABILITY_DELAY =
   // ms to wait for Chrome concurrent calls to settle. See background.ts
   typeof process !== "undefined" && process.env.NODE_ENV === "test" ? 1 : 250;
 
+// Tab/group events our own run caused can arrive just after it ends
+const OWN_EVENT_GRACE_MS = 1000;
+
 export default class TabGroupingController {
+  private isProcessing = false;
+  private lastRunEndedAt = 0;
+  /**
+   * Last known group of each tab, so a group change knows where the tab came
+   * from. Mirrors storage.session; null until loaded by this worker.
+   */
+  private tabGroupIds: Map<TabId, number> | null = null;
+
   constructor(
     private readonly service: TabGroupingService,
     private readonly windowService: WindowManagementService,
@@ -38,10 +68,14 @@ export default class TabGroupingController {
       await new Promise((r) => setTimeout(r, STABILITY_DELAY));
     }
 
-    const [tabs, groups] = await Promise.all([
-      this.adapter.getNormalTabs(),
-      this.adapter.getGroups(),
-    ]);
+    const [tabs, groups, managedGroups, groupingExceptions] = await Promise.all(
+      [
+        this.adapter.getNormalTabs(),
+        this.adapter.getGroups(),
+        this.adapter.loadManagedGroups(),
+        this.adapter.loadGroupingExceptions(),
+      ],
+    );
 
     // Mandate: Ensure tabs are sorted by windowId and index for stable processing
     tabs.sort((a, b) => {
@@ -49,10 +83,15 @@ export default class TabGroupingController {
         return (a.windowId || 0) - (b.windowId || 0);
       return a.index - b.index;
     });
+    await this.recordTabGroupIds(
+      new Map(tabs.map((t) => [asTabId(t.id)!, t.groupId])),
+    );
 
     return {
       allTabs: tabs,
       groupIdToGroup: new Map(groups.map((g) => [g.id, g])),
+      managedGroups,
+      groupingExceptions,
     };
   }
 
@@ -79,44 +118,158 @@ export default class TabGroupingController {
         numWindowsToKeep: grouping.numWindowsToKeep,
         ungroupSingleTab: !!grouping.ungroupSingleTab,
         sortManualGroupTabs: !!grouping.sortManualGroupTabs,
+        autoMode: !!grouping.autoMode,
+        urlNormalization: grouping.urlNormalization ?? {},
+        dedupKeepPolicy: grouping.dedupKeepPolicy ?? [],
+        dedupExemptPatterns: grouping.dedupExemptPatterns ?? [],
+        // Unset defers to `internalPagePolicy` (see `getSurplusBlankTabIds`)
+        blankTabCleanup: grouping.blankTabCleanup,
+        protectedGroupTitles: grouping.protectedGroupTitles ?? [],
+        scheduledRun:
+          grouping.scheduledRun ?? DEFAULT_RUN_TRIGGERS.scheduledRun,
+        idleRun: grouping.idleRun ?? DEFAULT_RUN_TRIGGERS.idleRun,
+        groupRenamePolicy: grouping.groupRenamePolicy ?? "protect",
+        sortStrategy: grouping.sortStrategy ?? {},
+        categoryOrder: grouping.categoryOrder ?? [...TAB_CATEGORIES],
+        layoutMode: grouping.layoutMode ?? "sorted",
+        internalPagePolicy: grouping.internalPagePolicy ?? "front",
       },
     };
   }
 
   /**
-   * Phase 0: Cleanup (Deduplication, Auto-Delete, Internal Pre-sort).
+   * Phase 0: Cleanup (Deduplication, Auto-Delete, Blank Tabs, Discard, Internal Pre-sort).
    */
   private async runCleanupPhase(
     state: BrowserState,
     config: GroupingConfig,
     rulesByDomain: RulesByDomain,
+    activeWindowId: number,
+    phases: readonly RunPhase[] = RUN_PHASES,
+    scopeWindowId?: WindowId,
   ): Promise<BrowserState> {
     let modified = false;
+    const scopedTabs =
+      scopeWindowId === undefined
+        ? state.allTabs
+        : state.allTabs.filter((t) => t.windowId === scopeWindowId);
 
-    const internalMoves = this.service.calculateInternalPageMoves(
-      state.allTabs,
-    );
-    if (internalMoves.length > 0) {
-      await this.adapter.applyInternalPageMoves(internalMoves);
-      modified = true;
+    if (
+      phases.includes("sort") &&
+      this.service.leadsWithInternalPages(config)
+    ) {
+      const internalMoves = this.service.calculateInternalPageMoves(scopedTabs);
+      if (internalMoves.length > 0) {
+        await this.adapter.applyInternalPageMoves(internalMoves);
+        modified = true;
+      }
     }
 
-    if (config.ungroupSingleTab) {
-      await this.adapter.ungroupSingleTabGroups(state.allTabs);
-      modified = true;
+    if (phases.includes("group") && config.ungroupSingleTab) {
+      const singles = this.service.getSingleTabGroupTabIds(scopedTabs);
+      if (singles.length > 0) {
+        await this.adapter.ungroupTabs(singles);
+        modified = true;
+      }
     }
 
+    const dedup = phases.includes("dedup");
+    const autoDelete = phases.includes("autoDelete");
+
     // Deduplication & Auto-Delete
-    const toRemove = this.service.getCleanupTabIds(
+    if (dedup || autoDelete) {
+      const toRemove = this.service.getCleanupTabIds(
+        state.allTabs,
+        rulesByDomain,
+        config,
+        {
+          ...this.getCleanupContext(
+            state,
+            rulesByDomain,
+            config,
+            activeWindowId,
+          ),
+          skipDedup: !dedup,
+          skipAutoDelete: !autoDelete,
+        },
+      );
+      if (toRemove.size > 0) {
+        await this.adapter.archiveTabs(this.toArchiveEntries(state, toRemove));
+        await this.adapter.removeTabs([...toRemove]);
+        state = await this.refreshState();
+      }
+    }
+
+    // Surplus blank/new-tab pages; nothing worth archiving
+    if (dedup) {
+      const blankTabs = this.service.getSurplusBlankTabIds(
+        state.allTabs,
+        config,
+        this.getCleanupContext(state, rulesByDomain, config, activeWindowId),
+      );
+      if (blankTabs.size > 0) {
+        await this.adapter.removeTabs([...blankTabs]);
+        state = await this.refreshState();
+      }
+    }
+
+    // Discard (unload) runs on the survivors; it keeps tabs in place
+    if (autoDelete) {
+      const toDiscard = this.service.getDiscardTabIds(
+        state.allTabs,
+        rulesByDomain,
+        this.getCleanupContext(state, rulesByDomain, config, activeWindowId),
+      );
+      if (toDiscard.size > 0) {
+        await this.adapter.discardTabs([...toDiscard]);
+        modified = true;
+      }
+    }
+
+    return modified ? this.refreshState() : state;
+  }
+
+  private toArchiveEntries(
+    state: BrowserState,
+    tabIds: ReadonlySet<TabId>,
+  ): ArchivedTab[] {
+    const closedAt = Date.now();
+    return state.allTabs
+      .filter((t) => tabIds.has(asTabId(t.id)!))
+      .map((t) => ({
+        id: `${closedAt}-${t.id}`,
+        url: t.url!,
+        title: t.title || t.url!,
+        groupTitle: isGrouped(t)
+          ? state.groupIdToGroup.get(t.groupId)?.title || null
+          : null,
+        windowId: asWindowId(t.windowId),
+        closedAt,
+      }));
+  }
+
+  private getCleanupContext(
+    state: BrowserState,
+    rulesByDomain: RulesByDomain,
+    config: GroupingConfig,
+    activeWindowId: number,
+  ): CleanupContext {
+    const { protectedMeta } = this.service.identifyProtectedTabs(
       state.allTabs,
+      state.groupIdToGroup,
       rulesByDomain,
+      config.protectedGroupTitles ?? [],
+      state.managedGroups,
     );
-    if (toRemove.size > 0) {
-      await this.adapter.removeTabs([...toRemove]);
-      modified = true;
+    const collapsedGroupIds = new Set<GroupId>();
+    for (const group of state.groupIdToGroup.values()) {
+      if (group.collapsed) collapsedGroupIds.add(asGroupId(group.id));
     }
-
-    return modified ? this.refreshState() : state;
+    return {
+      activeWindowId: asWindowId(activeWindowId),
+      protectedTabIds: new Set(protectedMeta.keys()),
+      collapsedGroupIds,
+    };
   }
 
   private async ensureActiveWindowId(): Promise<number> {
@@ -139,19 +292,7 @@ export default class TabGroupingController {
     groupingConfig: GroupingConfig,
     activeWindowId: number,
   ): Promise<BrowserState> {
-    const numToKeep = groupingConfig.byWindow
-      ? groupingConfig.numWindowsToKeep
-      : 1;
-
-    if (!isDefined(numToKeep)) return state;
-
-    const plan = this.windowService.createConsolidationPlan(
-      state.allTabs,
-      numToKeep,
-      this.service,
-      asWindowId(activeWindowId),
-    );
-
+    const plan = this.planConsolidation(state, groupingConfig, activeWindowId);
     if (plan) {
       const res = await this.adapter.executeConsolidationPlan(
         plan,
@@ -164,8 +305,29 @@ export default class TabGroupingController {
     return state;
   }
 
+  private planConsolidation(
+    state: BrowserState,
+    groupingConfig: GroupingConfig,
+    activeWindowId: number,
+  ): ConsolidationPlan | null {
+    const numToKeep = groupingConfig.byWindow
+      ? groupingConfig.numWindowsToKeep
+      : 1;
+
+    if (!isDefined(numToKeep)) return null;
+
+    return this.windowService.createConsolidationPlan(
+      state.allTabs,
+      numToKeep,
+      this.service,
+      asWindowId(activeWindowId),
+    );
+  }
+
   /**
    * Phase 2: Grouping Pass (Membership and Ordering).
+   * Sorting without grouping works per window so no tab changes window;
+   * `scopeWindowId` limits the pass to that one window.
    */
   private async runGroupingPhase(
     state: BrowserState,
@@ -174,21 +336,34 @@ export default class TabGroupingController {
     activeWindowId: number,
     protectedMeta: ProtectedTabMetaMap,
     managedGroupIds: Map<number, string>,
+    phases: readonly RunPhase[] = RUN_PHASES,
+    scopeWindowId?: WindowId,
   ): Promise<BrowserState> {
-    const windowMap = groupingConfig.byWindow
-      ? this.windowService.groupByWindow(state.allTabs)
-      : new Map([[asWindowId(activeWindowId), state.allTabs]]);
+    const steps = {
+      group: phases.includes("group"),
+      sort: phases.includes("sort"),
+    };
+    const isGlobal =
+      !groupingConfig.byWindow && steps.group && scopeWindowId === undefined;
+    const windowMap = isGlobal
+      ? new Map([[asWindowId(activeWindowId), state.allTabs]])
+      : this.windowService.groupByWindow(
+          scopeWindowId === undefined
+            ? state.allTabs
+            : state.allTabs.filter((t) => t.windowId === scopeWindowId),
+        );
 
     let currentState = state;
     for (const [wid] of windowMap) {
       const res = await this.processGrouping(
         wid,
         rulesByDomain,
-        !groupingConfig.byWindow,
+        isGlobal,
         currentState,
         protectedMeta,
         managedGroupIds,
-        !!groupingConfig.sortManualGroupTabs,
+        groupingConfig,
+        steps,
       );
       if (!res.success) throw res.error;
       currentState = res.value;
@@ -208,6 +383,7 @@ export default class TabGroupingController {
     isGlobal: boolean,
     protectedMeta: ProtectedTabMetaMap,
     managedGroupIds: Map<number, string>,
+    ordering: OrderingConfig = {},
   ) {
     const scopedTabs = isGlobal
       ? state.allTabs
@@ -218,6 +394,8 @@ export default class TabGroupingController {
       rulesByDomain,
       state.groupIdToGroup,
       protectedMeta,
+      state.groupingExceptions ?? undefined,
+      ordering.internalPagePolicy ?? "front",
     );
 
     const tabCache = new Map<TabId, Tab>(
@@ -228,6 +406,7 @@ export default class TabGroupingController {
       groupMap,
       tabCache,
       managedGroupIds,
+      ordering,
     );
 
     return {
@@ -238,6 +417,71 @@ export default class TabGroupingController {
     };
   }
 
+  private planMembership(
+    state: BrowserState,
+    windowId: WindowId,
+    rulesByDomain: RulesByDomain,
+    isGlobal: boolean,
+    protectedMeta: ProtectedTabMetaMap,
+    managedGroupIds: Map<number, string>,
+    config: GroupingConfig,
+  ): MembershipPlan {
+    const pre = this.buildGroupingContext(
+      state,
+      windowId,
+      rulesByDomain,
+      isGlobal,
+      protectedMeta,
+      managedGroupIds,
+      config,
+    );
+    return this.service.buildMembershipPlan(
+      pre.groupStates,
+      pre.tabCache,
+      pre.managedGroupIds,
+      windowId,
+    );
+  }
+
+  private planOrder(
+    state: BrowserState,
+    windowId: WindowId,
+    rulesByDomain: RulesByDomain,
+    isGlobal: boolean,
+    protectedMeta: ProtectedTabMetaMap,
+    managedGroupIds: Map<number, string>,
+    config: GroupingConfig,
+    keepMembership = false,
+  ): { orderPlan: OrderPlan; scopedTabs: Tab[] } {
+    const fresh = this.buildGroupingContext(
+      state,
+      windowId,
+      rulesByDomain,
+      isGlobal,
+      protectedMeta,
+      managedGroupIds,
+      config,
+    );
+
+    const repositionStates = this.service.calculateRepositionNeeds(
+      fresh.groupStates,
+      fresh.tabCache,
+      windowId,
+      fresh.managedGroupIds,
+      config,
+    );
+
+    let desired = this.service.mapToOrderUnits(repositionStates);
+    if (keepMembership) {
+      desired = this.service.alignOrderUnits(desired, fresh.scopedTabs);
+    }
+    const live = this.service.getLiveUnits(fresh.scopedTabs);
+    return {
+      orderPlan: this.service.buildOrderPlan(desired, live),
+      scopedTabs: fresh.scopedTabs,
+    };
+  }
+
   private async processGrouping(
     windowId: WindowId,
     rulesByDomain: RulesByDomain,
@@ -245,58 +489,49 @@ export default class TabGroupingController {
     state: BrowserState,
     providedProtectedMeta: ProtectedTabMetaMap,
     providedManagedGroupIds: Map<number, string>,
-    sortManualGroupTabs: boolean,
+    config: GroupingConfig,
+    steps: { group: boolean; sort: boolean },
   ): Promise<Result<BrowserState, Error>> {
     try {
       // Phase 2a: Membership
-      const pre = this.buildGroupingContext(
-        state,
-        windowId,
-        rulesByDomain,
-        isGlobal,
-        providedProtectedMeta,
-        providedManagedGroupIds,
-      );
-
-      const membershipPlan = this.service.buildMembershipPlan(
-        pre.groupStates,
-        pre.tabCache,
-        pre.managedGroupIds,
-        windowId,
-      );
+      if (steps.group) {
+        const membershipPlan = this.planMembership(
+          state,
+          windowId,
+          rulesByDomain,
+          isGlobal,
+          providedProtectedMeta,
+          providedManagedGroupIds,
+          config,
+        );
 
-      const memRes = await this.adapter.executeMembershipPlan(
-        membershipPlan,
-        state.allTabs,
-      );
-      if (!memRes.success) return memRes;
+        const memRes = await this.adapter.executeMembershipPlan(
+          membershipPlan,
+          state.allTabs,
+          state.groupIdToGroup,
+        );
+        if (!memRes.success) return memRes;
+      }
+      if (!steps.sort) {
+        return { success: true, value: await this.refreshState() };
+      }
 
       // Phase 2b: Ordering (The "Reality Check" way)
       const freshState = await this.refreshState();
-      const fresh = this.buildGroupingContext(
+      const { orderPlan, scopedTabs } = this.planOrder(
         freshState,
         windowId,
         rulesByDomain,
         isGlobal,
         providedProtectedMeta,
         providedManagedGroupIds,
+        config,
+        !steps.group,
       );
-
-      const repositionStates = this.service.calculateRepositionNeeds(
-        fresh.groupStates,
-        fresh.tabCache,
-        windowId,
-        fresh.managedGroupIds,
-        sortManualGroupTabs,
-      );
-
-      const desired = this.service.mapToOrderUnits(repositionStates);
-      const live = this.service.getLiveUnits(fresh.scopedTabs);
-      const orderPlan = this.service.buildOrderPlan(desired, live);
       const orderRes = await this.adapter.executeOrderPlan(
         orderPlan,
         windowId,
-        fresh.scopedTabs,
+        scopedTabs,
       );
       if (!orderRes.success) return orderRes;
 
@@ -309,100 +544,526 @@ export default class TabGroupingController {
     }
   }
 
+  /**
+   * Lightweight analysis of what a full run would do, without planning moves.
+   */
+  async analyze(): Promise<RunAnalysis> {
+    const [state, rawStore, activeWindowId, renameOffers] = await Promise.all([
+      this.refreshState(),
+      this.store.getState(),
+      this.ensureActiveWindowId(),
+      this.adapter.loadRenameOffers(),
+    ]);
+    const { rulesByDomain, config } = await this.loadConfiguration(rawStore);
+
+    // Same context as runCleanupPhase, so the badge counts what a run closes
+    const cleanupContext = this.getCleanupContext(
+      state,
+      rulesByDomain,
+      config,
+      activeWindowId,
+    );
+    const toRemove = new Set([
+      ...this.service.getCleanupTabIds(
+        state.allTabs,
+        rulesByDomain,
+        config,
+        cleanupContext,
+      ),
+      ...this.service.getSurplusBlankTabIds(
+        state.allTabs,
+        config,
+        cleanupContext,
+      ),
+    ]);
+
+    const { protectedMeta, managedGroupIds } =
+      this.service.identifyProtectedTabs(
+        state.allTabs,
+        state.groupIdToGroup,
+        rulesByDomain,
+        config.protectedGroupTitles ?? [],
+        state.managedGroups,
+      );
+
+    const isGlobal = !config.byWindow;
+    const windowMap = config.byWindow
+      ? this.windowService.groupByWindow(state.allTabs)
+      : new Map([[asWindowId(activeWindowId), state.allTabs]]);
+
+    let pendingGroupingCount = 0;
+    let reorderCount = 0;
+    for (const wid of windowMap.keys()) {
+      const pre = this.buildGroupingContext(
+        state,
+        wid,
+        rulesByDomain,
+        isGlobal,
+        protectedMeta,
+        managedGroupIds,
+        config,
+      );
+
+      const membershipPlan = this.service.buildMembershipPlan(
+        pre.groupStates,
+        pre.tabCache,
+        pre.managedGroupIds,
+        wid,
+      );
+      pendingGroupingCount += membershipPlan.toUngroup.length;
+      for (const g of membershipPlan.toGroup) {
+        pendingGroupingCount += g.tabIds.filter((tid) => {
+          const tab = pre.tabCache.get(tid);
+          return !tab || tab.groupId !== g.groupId;
+        }).length;
+      }
+
+      const repositionStates = this.service.calculateRepositionNeeds(
+        pre.groupStates,
+        pre.tabCache,
+        wid,
+        pre.managedGroupIds,
+        config,
+      );
+      reorderCount += repositionStates.filter((s) => s.needsReposition).length;
+    }
+
+    const numWindowsToKeep = config.byWindow
+      ? (config.numWindowsToKeep ?? null)
+      : 1;
+    return {
+      closeCount: toRemove.size,
+      pendingGroupingCount,
+      reorderCount,
+      windowCount: new Set(state.allTabs.map((t) => t.windowId)).size,
+      numWindowsToKeep,
+      currentWindowGroups: [...state.groupIdToGroup.values()]
+        .filter((g) => g.windowId === activeWindowId)
+        .map((g) => ({
+          id: asGroupId(g.id),
+          title: g.title || "",
+          color: g.color,
+          collapsed: g.collapsed,
+          tabCount: state.allTabs.filter((t) => t.groupId === g.id).length,
+        })),
+      renameOffers,
+    };
+  }
+
   async updateBadge(): Promise<void> {
     try {
-      const [state, rawStore, _] = await Promise.all([
-        this.refreshState(),
-        this.store.getState(),
-        this.ensureActiveWindowId(),
-      ]);
-      const configResult = await this.loadConfiguration(rawStore);
-      const { rulesByDomain } = configResult;
+      const analysis = await this.analyze();
+      if (analysis.closeCount > 0) {
+        await this.adapter.updateBadge(analysis.closeCount.toString());
+      } else if (
+        analysis.pendingGroupingCount > 0 ||
+        analysis.reorderCount > 0
+      ) {
+        await this.adapter.updateBadge("!");
+      } else {
+        await this.adapter.updateBadge("");
+      }
+    } catch (err) {
+      console.warn("Failed to update badge:", err);
+    }
+  }
 
-      const toRemove = this.service.getCleanupTabIds(
+  /**
+   * Dry run: plans every phase of `execute` against an in-memory copy of the
+   * browser state and reports what would change. Nothing is applied.
+   */
+  async preview(): Promise<RunPreview> {
+    const [initialState, rawStore, activeWindowId] = await Promise.all([
+      this.refreshState(),
+      this.store.getState(),
+      this.ensureActiveWindowId(),
+    ]);
+    const { rulesByDomain, config } = await this.loadConfiguration(rawStore);
+
+    // Phase 0: Cleanup; a preview plans every phase, so only the config
+    // guards of runCleanupPhase apply
+    let state = initialState;
+    let reorderCount = 0;
+    if (this.service.leadsWithInternalPages(config)) {
+      const internalMoves = this.service.calculateInternalPageMoves(
         state.allTabs,
+      );
+      state = this.simulateTabMoves(state, internalMoves);
+      reorderCount += internalMoves.length;
+    }
+    if (config.ungroupSingleTab) {
+      state = this.simulateUngroup(
+        state,
+        this.service.getSingleTabGroupTabIds(state.allTabs),
+      );
+    }
+    const cleanupContext = this.getCleanupContext(
+      initialState,
+      rulesByDomain,
+      config,
+      activeWindowId,
+    );
+    const toRemove = this.service.getCleanupTabIds(
+      initialState.allTabs,
+      rulesByDomain,
+      config,
+      cleanupContext,
+    );
+    state = this.simulateRemoval(state, toRemove);
+    const blankTabs = this.service.getSurplusBlankTabIds(
+      state.allTabs,
+      config,
+      cleanupContext,
+    );
+    blankTabs.forEach((tid) => toRemove.add(tid));
+    state = this.simulateRemoval(state, blankTabs);
+    const toDiscard = this.service.getDiscardTabIds(
+      state.allTabs,
+      rulesByDomain,
+      this.getCleanupContext(state, rulesByDomain, config, activeWindowId),
+    );
+    const { protectedMeta, managedGroupIds } =
+      this.service.identifyProtectedTabs(
+        state.allTabs,
+        state.groupIdToGroup,
         rulesByDomain,
+        config.protectedGroupTitles ?? [],
+        state.managedGroups,
       );
 
-      if (toRemove.size > 0) {
-        await this.adapter.updateBadge(toRemove.size.toString());
-        return;
+    // Phase 1: Consolidation
+    const consolidation = this.planConsolidation(state, config, activeWindowId);
+    if (consolidation) {
+      state = this.simulateConsolidation(state, consolidation);
+    }
+
+    // Phase 2: Grouping
+    const isGlobal = !config.byWindow;
+    const windowIds = config.byWindow
+      ? [...this.windowService.groupByWindow(state.allTabs).keys()]
+      : [asWindowId(activeWindowId)];
+    const groupsCreated: RunPreview["groupsCreated"] = [];
+    const groupsRenamed: RunPreview["groupsRenamed"] = [];
+    for (const wid of windowIds) {
+      const membershipPlan = this.planMembership(
+        state,
+        wid,
+        rulesByDomain,
+        isGlobal,
+        protectedMeta,
+        managedGroupIds,
+        config,
+      );
+      for (const entry of membershipPlan.toGroup) {
+        const existing =
+          entry.groupId !== null
+            ? state.groupIdToGroup.get(entry.groupId)
+            : undefined;
+        if (!existing) {
+          groupsCreated.push({
+            title: entry.title,
+            tabCount: entry.tabIds.length,
+          });
+        } else if ((existing.title || "") !== entry.title) {
+          groupsRenamed.push({ from: existing.title || "", to: entry.title });
+        }
       }
+      state = this.simulateMembership(state, membershipPlan);
+      reorderCount += this.planOrder(
+        state,
+        wid,
+        rulesByDomain,
+        isGlobal,
+        protectedMeta,
+        managedGroupIds,
+        config,
+      ).orderPlan.toMove.length;
+    }
 
-      const activeWindowId = await this.ensureActiveWindowId();
-      const { protectedMeta, managedGroupIds } =
-        this.service.identifyProtectedTabs(
-          state.allTabs,
-          state.groupIdToGroup,
-          rulesByDomain,
-        );
+    const describe = (t: Tab): PreviewTab => ({
+      id: asTabId(t.id)!,
+      title: t.title || t.url || "",
+      url: t.url || "",
+    });
+    const finalTabs = new Map(state.allTabs.map((t) => [t.id, t]));
+    return {
+      toClose: initialState.allTabs
+        .filter((t) => toRemove.has(asTabId(t.id)!))
+        .map(describe),
+      toDiscard: state.allTabs
+        .filter((t) => toDiscard.has(asTabId(t.id)!))
+        .map(describe),
+      windowMoves: initialState.allTabs.flatMap((t) => {
+        const after = finalTabs.get(t.id);
+        return after && after.windowId !== t.windowId
+          ? [
+              {
+                ...describe(t),
+                fromWindowId: asWindowId(t.windowId),
+                toWindowId: asWindowId(after.windowId),
+              },
+            ]
+          : [];
+      }),
+      groupsCreated,
+      groupsRenamed,
+      groupsDissolved: [...initialState.groupIdToGroup.values()]
+        .filter((g) => !state.groupIdToGroup.has(g.id))
+        .map((g) => g.title || ""),
+      reorderCount,
+    };
+  }
 
-      const isGlobal = !configResult.config.byWindow;
-      const windowMap = configResult.config.byWindow
-        ? this.windowService.groupByWindow(state.allTabs)
-        : new Map([[asWindowId(activeWindowId), state.allTabs]]);
+  // --- Dry-run simulation: apply a plan to a copy of the state as Chrome would ---
 
-      let needsAttention = false;
+  private simulateRemoval(
+    state: BrowserState,
+    tabIds: ReadonlySet<TabId>,
+  ): BrowserState {
+    return this.settleSimulatedState({
+      ...state,
+      allTabs: state.allTabs
+        .filter((t) => !tabIds.has(asTabId(t.id)!))
+        .map((t) => ({ ...t })),
+      groupIdToGroup: new Map(state.groupIdToGroup),
+    });
+  }
 
-      for (const [wid, windowTabs] of windowMap) {
-        const pre = this.buildGroupingContext(
-          state,
-          wid,
-          rulesByDomain,
-          isGlobal,
-          protectedMeta,
-          managedGroupIds,
-        );
+  private simulateTabMoves(
+    state: BrowserState,
+    moves: readonly { tabId: TabId; targetIndex: number }[],
+  ): BrowserState {
+    const allTabs = state.allTabs.map((t) => ({ ...t }));
+    for (const { tabId, targetIndex } of moves) {
+      const tab = allTabs.find((t) => t.id === tabId);
+      if (!tab) continue;
+      // Shift the window around the moved tab as chrome.tabs.move does
+      const row = allTabs
+        .filter((t) => t.windowId === tab.windowId && t !== tab)
+        .sort((a, b) => a.index - b.index);
+      row.splice(targetIndex, 0, tab);
+      row.forEach((t, index) => (t.index = index));
+    }
+    return this.settleSimulatedState({
+      ...state,
+      allTabs,
+      groupIdToGroup: new Map(state.groupIdToGroup),
+    });
+  }
 
-        const membershipPlan = this.service.buildMembershipPlan(
-          pre.groupStates,
-          pre.tabCache,
-          pre.managedGroupIds,
-          wid,
-        );
+  private simulateUngroup(
+    state: BrowserState,
+    tabIds: readonly TabId[],
+  ): BrowserState {
+    const ids = new Set<number>(tabIds);
+    return this.settleSimulatedState({
+      ...state,
+      allTabs: state.allTabs.map((t) =>
+        ids.has(t.id!) ? { ...t, groupId: -1 } : { ...t },
+      ),
+      groupIdToGroup: new Map(state.groupIdToGroup),
+    });
+  }
 
-        const hasMembershipChanges =
-          membershipPlan.toUngroup.length > 0 ||
-          membershipPlan.toGroup.some((g) => {
-            return g.tabIds.some((tid) => {
-              const tab = pre.tabCache.get(tid);
-              return !tab || tab.groupId !== g.groupId;
-            });
-          });
+  private simulateConsolidation(
+    state: BrowserState,
+    plan: ConsolidationPlan,
+  ): BrowserState {
+    const allTabs = state.allTabs.map((t) => ({ ...t }));
+    const groupIdToGroup = new Map(state.groupIdToGroup);
+    for (const { groupId, windowId } of plan.groupMoves) {
+      const group = groupIdToGroup.get(groupId);
+      if (group) groupIdToGroup.set(groupId, { ...group, windowId });
+      for (const t of allTabs) {
+        if (t.groupId === groupId) this.simulateWindowMove(t, windowId);
+      }
+    }
+    for (const { tabIds, windowId } of plan.tabMoves) {
+      for (const t of allTabs) {
+        if (!tabIds.includes(t.id!)) continue;
+        // A tab moved away from its group's window leaves the group
+        if (groupIdToGroup.get(t.groupId)?.windowId !== windowId) {
+          t.groupId = -1;
+        }
+        this.simulateWindowMove(t, windowId);
+      }
+    }
+    return this.settleSimulatedState({ ...state, allTabs, groupIdToGroup });
+  }
 
-        if (hasMembershipChanges) {
-          needsAttention = true;
-          break;
+  private simulateMembership(
+    state: BrowserState,
+    plan: MembershipPlan,
+  ): BrowserState {
+    const allTabs = state.allTabs.map((t) => ({ ...t }));
+    const groupIdToGroup = new Map(state.groupIdToGroup);
+    const managedGroups = state.managedGroups && new Set(state.managedGroups);
+    const toUngroup = new Set<number>(plan.toUngroup);
+    for (const t of allTabs) {
+      if (toUngroup.has(t.id!)) t.groupId = -1;
+    }
+    // New groups get placeholder IDs below every existing one (-1 means ungrouped)
+    let nextPlaceholderId = Math.min(-1, ...groupIdToGroup.keys()) - 1;
+    for (const entry of plan.toGroup) {
+      const gid = entry.groupId ?? nextPlaceholderId--;
+      managedGroups?.add(gid);
+      const previous = groupIdToGroup.get(gid);
+      groupIdToGroup.set(gid, {
+        id: gid,
+        windowId: plan.targetWindowId,
+        color: entry.color ?? previous?.color ?? "grey",
+        shared: previous?.shared ?? false,
+        title: entry.title,
+        collapsed: entry.collapsed,
+      });
+      const ids = new Set<number>(entry.tabIds);
+      for (const t of allTabs) {
+        if (!ids.has(t.id!)) continue;
+        t.groupId = gid;
+        if (t.windowId !== plan.targetWindowId) {
+          this.simulateWindowMove(t, plan.targetWindowId);
         }
+      }
+    }
+    return this.settleSimulatedState({
+      ...state,
+      allTabs,
+      groupIdToGroup,
+      managedGroups,
+    });
+  }
 
-        const repositionStates = this.service.calculateRepositionNeeds(
-          pre.groupStates,
-          pre.tabCache,
-          wid,
-          pre.managedGroupIds,
-          !!configResult.config.sortManualGroupTabs,
-        );
+  private simulateWindowMove(tab: Tab, windowId: WindowId) {
+    // Tabs moved to another window are appended (index -1)
+    tab.windowId = windowId;
+    tab.index = Number.MAX_SAFE_INTEGER;
+  }
 
-        const hasRepositionChanges = repositionStates.some(
-          (s) => s.needsReposition,
-        );
-        if (hasRepositionChanges) {
-          needsAttention = true;
-          break;
+  /**
+   * Re-indexes each window, keeping every group's tabs contiguous at its first
+   * tab (as Chrome does), and drops groups left without tabs.
+   */
+  private settleSimulatedState(state: BrowserState): BrowserState {
+    const byWindow = new Map<number, Tab[]>();
+    for (const t of [...state.allTabs].sort((a, b) => a.index - b.index)) {
+      if (!byWindow.has(t.windowId)) byWindow.set(t.windowId, []);
+      byWindow.get(t.windowId)!.push(t);
+    }
+
+    const allTabs: Tab[] = [];
+    for (const wid of [...byWindow.keys()].sort((a, b) => a - b)) {
+      const tabs = byWindow.get(wid)!;
+      const placed = new Set<Tab>();
+      let index = 0;
+      for (const t of tabs) {
+        if (placed.has(t)) continue;
+        const block = isGrouped(t)
+          ? tabs.filter((o) => o.groupId === t.groupId)
+          : [t];
+        for (const b of block) {
+          placed.add(b);
+          b.index = index++;
+          allTabs.push(b);
         }
       }
+    }
 
-      if (needsAttention) {
-        await this.adapter.updateBadge("!");
-      } else {
-        await this.adapter.updateBadge("");
-      }
+    const liveGroupIds = new Set(allTabs.map((t) => t.groupId));
+    return {
+      ...state,
+      allTabs,
+      groupIdToGroup: new Map(
+        [...state.groupIdToGroup].filter(([id]) => liveGroupIds.has(id)),
+      ),
+    };
+  }
+
+  private takeSnapshot(state: BrowserState): RunSnapshot {
+    return {
+      takenAt: Date.now(),
+      tabs: state.allTabs
+        .filter((t) => t.id !== undefined && t.url)
+        .map((t) => ({
+          id: asTabId(t.id)!,
+          url: t.url!,
+          windowId: asWindowId(t.windowId),
+          index: t.index,
+          pinned: t.pinned,
+          groupId: isGrouped(t) ? asGroupId(t.groupId) : null,
+        })),
+      groups: [...state.groupIdToGroup.values()].map((g) => ({
+        id: asGroupId(g.id),
+        windowId: asWindowId(g.windowId),
+        title: g.title || "",
+        color: g.color,
+        collapsed: g.collapsed,
+        managed: !!state.managedGroups?.has(g.id),
+      })),
+      closedTabIds: [],
+    };
+  }
+
+  private async recordClosedTabs(
+    snapshot: RunSnapshot,
+    state: BrowserState,
+  ): Promise<void> {
+    const liveIds = new Set(state.allTabs.map((t) => t.id));
+    const closedTabIds = snapshot.tabs
+      .map((t) => t.id)
+      .filter((id) => !liveIds.has(id));
+    if (closedTabIds.length > 0) {
+      await this.adapter.saveSnapshot({ ...snapshot, closedTabIds });
+    }
+  }
+
+  /**
+   * Restores the browser to the snapshot taken before the last `execute` run.
+   * Returns false when there is nothing to undo.
+   */
+  async undoLastRun(): Promise<boolean> {
+    if (this.isProcessing) return false;
+    const snapshot = await this.adapter.loadSnapshot();
+    if (!snapshot) return false;
+    this.isProcessing = true;
+    try {
+      this.adapter.updateBadge("O", "#FFD700");
+      await this.adapter.restoreSnapshot(snapshot);
+      await this.adapter.clearSnapshot();
+      this.adapter.updateBadge("");
+      return true;
     } catch (err) {
-      console.warn("Failed to update badge:", err);
+      console.warn("Undo error:", err);
+      this.adapter.updateBadge("!", "#FFA500");
+      return false;
+    } finally {
+      this.isProcessing = false;
+      this.lastRunEndedAt = Date.now();
     }
   }
 
-  async execute(): Promise<void> {
+  /**
+   * Runs the pipeline. `phases` restricts the run to a subset of
+   * `RUN_PHASES`; the default is a full run. `scopeWindowId` keeps the
+   * grouping pass (and its pre-sort/single-tab ungroup) inside one window.
+   */
+  execute(
+    phases: readonly RunPhase[] = RUN_PHASES,
+    scopeWindowId?: WindowId,
+  ): Promise<void> {
+    return this.runPipeline(phases, scopeWindowId, true);
+  }
+
+  /**
+   * `undoable` runs replace the undo snapshot. Background runs (alarm, idle)
+   * are not, so undo keeps reverting the user's last run.
+   */
+  private async runPipeline(
+    phases: readonly RunPhase[],
+    scopeWindowId: WindowId | undefined,
+    undoable: boolean,
+  ): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
     try {
       this.adapter.updateBadge("O", "#FFD700");
       const [initialState, rawStore, activeWindowId] = await Promise.all([
@@ -415,8 +1076,19 @@ export default class TabGroupingController {
       const configResult = await this.loadConfiguration(rawStore);
       const { rulesByDomain, config } = configResult;
 
-      // Phase 0: Cleanup (skip if explicitly requested)
-      state = await this.runCleanupPhase(state, config, rulesByDomain);
+      const snapshot = undoable ? this.takeSnapshot(state) : null;
+      if (snapshot) await this.adapter.saveSnapshot(snapshot);
+
+      // Phase 0: Cleanup
+      state = await this.runCleanupPhase(
+        state,
+        config,
+        rulesByDomain,
+        activeWindowId,
+        phases,
+        scopeWindowId,
+      );
+      if (snapshot) await this.recordClosedTabs(snapshot, state);
 
       // This ensures that manual groups moving across windows are remembered and re-bundled.
       const { protectedMeta, managedGroupIds } =
@@ -424,33 +1096,44 @@ export default class TabGroupingController {
           state.allTabs,
           state.groupIdToGroup,
           rulesByDomain,
+          config.protectedGroupTitles ?? [],
+          state.managedGroups,
         );
 
       // Phase 1: Consolidation
-      state = await this.runConsolidationPhase(state, config, activeWindowId);
+      if (phases.includes("consolidate")) {
+        state = await this.runConsolidationPhase(state, config, activeWindowId);
+      }
 
       // Phase 2: Grouping
-      state = await this.runGroupingPhase(
-        state,
-        config,
-        rulesByDomain,
-        activeWindowId,
-        protectedMeta,
-        managedGroupIds,
-      );
+      if (phases.includes("group") || phases.includes("sort")) {
+        state = await this.runGroupingPhase(
+          state,
+          config,
+          rulesByDomain,
+          activeWindowId,
+          protectedMeta,
+          managedGroupIds,
+          phases,
+          scopeWindowId,
+        );
+      }
 
-      // Phase 3: Verification
-      const isVerified = this.service.verifyState(
-        state.allTabs,
-        state.groupIdToGroup,
-        rulesByDomain,
-        config,
-        asWindowId(activeWindowId),
-        this.windowService,
-      );
+      // Phase 3: Verification (only meaningful for a full grouping pass)
+      if (phases.includes("group") && phases.includes("sort")) {
+        const isVerified = this.service.verifyState(
+          state.allTabs,
+          state.groupIdToGroup,
+          rulesByDomain,
+          config,
+          asWindowId(activeWindowId),
+          this.windowService,
+          state.managedGroups,
+        );
 
-      if (!isVerified) {
-        console.warn("Verification failed, skipping retry for idempotency.");
+        if (!isVerified) {
+          console.warn("Verification failed, skipping retry for idempotency.");
+        }
       }
 
       this.adapter.updateBadge("");
@@ -458,6 +1141,343 @@ export default class TabGroupingController {
       console.warn("Execute error:", err);
       console.trace();
       this.adapter.updateBadge("!", "#FFA500");
+    } finally {
+      this.isProcessing = false;
+      this.lastRunEndedAt = Date.now();
+    }
+  }
+
+  /** Closes duplicate tabs only. */
+  dedup(): Promise<void> {
+    return this.execute(["dedup"]);
+  }
+
+  /** Applies auto-delete and discard rules only. */
+  autoDelete(): Promise<void> {
+    return this.execute(["autoDelete"]);
+  }
+
+  /** Merges excess windows only. */
+  consolidate(): Promise<void> {
+    return this.execute(["consolidate"]);
+  }
+
+  /** Updates group membership without reordering. */
+  group(): Promise<void> {
+    return this.execute(["group"]);
+  }
+
+  /** Reorders tabs and groups without changing membership or windows. */
+  sort(): Promise<void> {
+    return this.execute(["sort"]);
+  }
+
+  /**
+   * Seeds or prunes the registry of managed groups. Without a registry (first
+   * start after an upgrade, or a browser restart, which renumbers groups) the
+   * title heuristic decides once which existing groups are ours; after that
+   * only IDs of live groups are kept.
+   */
+  async reconcileManagedGroups(): Promise<void> {
+    const [state, { rulesByDomain, config }] = await Promise.all([
+      this.refreshState(),
+      this.loadConfiguration(),
+    ]);
+    await this.adapter.updateManagedGroups((ids) => {
+      if (ids) return [...ids].filter((id) => state.groupIdToGroup.has(id));
+      const { managedGroupIds } = this.service.identifyProtectedTabs(
+        state.allTabs,
+        state.groupIdToGroup,
+        rulesByDomain,
+        config.protectedGroupTitles ?? [],
+      );
+      return [...managedGroupIds.keys()].map(asGroupId);
+    });
+    const liveTabIds = new Set(state.allTabs.map((t) => t.id));
+    await this.adapter.updateGroupingExceptions((ids) =>
+      [...ids].filter((id) => liveTabIds.has(id)),
+    );
+    await this.adapter.updateRenameOffers((offers) =>
+      offers.filter((o) => state.groupIdToGroup.has(o.groupId)),
+    );
+  }
+
+  /** Drops a closed group from the registry (`tabGroups.onRemoved`). */
+  forgetManagedGroup(groupId: GroupId): Promise<void> {
+    return this.adapter.updateManagedGroups(
+      (ids) => ids && [...ids].filter((id) => id !== groupId),
+    );
+  }
+
+  private async recordTabGroupIds(next: Map<TabId, number>): Promise<void> {
+    const prev = this.tabGroupIds;
+    this.tabGroupIds = next;
+    if (
+      prev?.size === next.size &&
+      [...next].every(([tabId, groupId]) => prev.get(tabId) === groupId)
+    )
+      return;
+    await this.adapter.saveTabGroupIds(next);
+  }
+
+  private isOwnChange(): boolean {
+    return (
+      this.isProcessing || Date.now() - this.lastRunEndedAt < OWN_EVENT_GRACE_MS
+    );
+  }
+
+  /**
+   * `tabGroups.onUpdated`: applies `groupRenamePolicy` when the user renamed
+   * a managed group. Only registry-tracked groups count; without a registry
+   * a renamed group already reads as manual.
+   */
+  async handleGroupUpdated(group: chrome.tabGroups.TabGroup): Promise<void> {
+    if (this.isOwnChange()) return;
+    const [state, { rulesByDomain, config }] = await Promise.all([
+      this.refreshState(),
+      this.loadConfiguration(),
+    ]);
+    if (!state.managedGroups?.has(group.id)) return;
+    const gTabs = state.allTabs.filter((t) => t.groupId === group.id);
+    const title = group.title ?? "";
+    if (
+      gTabs.length === 0 ||
+      !this.service.isRenamedByUser(title, gTabs, rulesByDomain)
+    )
+      return;
+
+    const domain = this.service.getDomain(gTabs[0].url);
+    const rule = this.service.findRule(domain, gTabs[0].url, rulesByDomain);
+    const groupId = asGroupId(group.id);
+    switch (config.groupRenamePolicy) {
+      case "revert": {
+        const { title: generated } = this.service.getGroupKey(
+          domain,
+          gTabs[0].url,
+          rulesByDomain,
+        );
+        await this.adapter.retitleGroup(groupId, generated);
+        return;
+      }
+      case "updateRule":
+        // A split rule's groupName is only part of each group's title
+        if (!rule?.splitByPath) {
+          await this.adapter.updateRenameOffers((offers) => [
+            ...offers.filter((o) => o.groupId !== groupId),
+            { groupId, domain: rule?.domain ?? domain, title },
+          ]);
+        }
+        break;
     }
+    // Manual until the offer is answered (or for good under "protect")
+    await this.forgetManagedGroup(groupId);
+  }
+
+  /**
+   * `tabs.onUpdated` with a `groupId` change: a tab the user moved out of a
+   * managed group becomes a grouping exception; moving it back into one
+   * lifts the exception. Tabs whose previous group is unknown or unmanaged
+   * (solo tabs, manual groups) are left alone.
+   */
+  async handleTabGroupChanged(tabId: TabId, groupId: number): Promise<void> {
+    // A drag-out often wakes the worker, so the map comes from storage.session
+    const tabGroupIds =
+      this.tabGroupIds ?? (await this.adapter.loadTabGroupIds());
+    const previous = tabGroupIds.get(tabId);
+    await this.recordTabGroupIds(new Map(tabGroupIds).set(tabId, groupId));
+    if (this.isOwnChange()) return;
+    const managed = await this.adapter.loadManagedGroups();
+    if (!managed) return;
+    if (managed.has(asGroupId(groupId))) {
+      await this.adapter.updateGroupingExceptions((ids) => {
+        ids.delete(tabId);
+        return ids;
+      });
+    } else if (previous !== undefined && managed.has(asGroupId(previous))) {
+      await this.adapter.updateGroupingExceptions((ids) => ids.add(tabId));
+    }
+  }
+
+  /**
+   * "Exclude this tab" context menu item: the same grouping exception as a
+   * drag-out, so it lasts until the tab closes and ends if the user moves the
+   * tab back into a managed group.
+   */
+  excludeTab(tabId: TabId): Promise<void> {
+    return this.adapter.updateGroupingExceptions((ids) => ids.add(tabId));
+  }
+
+  /**
+   * Answers a rename offer from the popup. Accepting writes the title into
+   * the rule's `groupName` and takes the group back as managed.
+   */
+  async resolveRenameOffer(groupId: GroupId, accept: boolean): Promise<void> {
+    const offer = (await this.adapter.loadRenameOffers()).find(
+      (o) => o.groupId === groupId,
+    );
+    await this.adapter.updateRenameOffers((offers) =>
+      offers.filter((o) => o.groupId !== groupId),
+    );
+    if (!offer || !accept) return;
+
+    // Only `rules`, so a concurrent settings write isn't undone
+    const { rules } = await this.store.getState();
+    await this.store.setState({
+      rules: upsertRule(rules ?? [], offer.domain, {
+        groupName: offer.title,
+      }),
+    });
+    await this.adapter.updateManagedGroups((ids) => ids && [...ids, groupId]);
+  }
+
+  /**
+   * Runs the phases configured for an alarm or idle trigger. Does nothing
+   * when the trigger is disabled or has no phases selected.
+   */
+  async runTrigger(name: RunTriggerName): Promise<void> {
+    const { config } = await this.loadConfiguration();
+    const trigger = config[name];
+    if (!trigger?.enabled || trigger.phases.length === 0) return;
+    await this.runPipeline(trigger.phases, undefined, false);
+  }
+
+  /**
+   * Idle trigger: runs `idleRun` once per absence. idle -> locked is still the
+   * same absence; the last state lives in storage.session, so a restarted
+   * worker neither repeats nor misses the run.
+   */
+  async handleIdleStateChanged(
+    newState: `${chrome.idle.IdleState}`,
+  ): Promise<void> {
+    const previous = (await this.adapter.loadIdleState()) ?? "active";
+    await this.adapter.saveIdleState(newState);
+    if (newState === "active" || previous !== "active") return;
+    await this.runTrigger("idleRun");
+  }
+
+  /**
+   * Auto mode: organizes only the changed tabs. Duplicates of tabs that
+   * finished loading are closed, then each changed tab joins (or leaves) its
+   * domain group inside its own window. There is no consolidation or reorder
+   * pass, so the rest of the window stays where the user put it.
+   */
+  async autoOrganize(
+    changes: readonly { tabId: number; loaded: boolean }[],
+  ): Promise<void> {
+    if (this.isProcessing || changes.length === 0) return;
+    // Checked before taking the lock, so a disabled auto mode never blocks
+    // other runs or mutes user edits via the own-change grace period
+    const { rulesByDomain, config } = await this.loadConfiguration();
+    if (!config.autoMode || this.isProcessing) return;
+    this.isProcessing = true;
+    let changed = false;
+    try {
+      const [initialState, activeWindowId] = await Promise.all([
+        this.refreshState(),
+        this.ensureActiveWindowId(),
+      ]);
+      let state = initialState;
+
+      const context = this.getCleanupContext(
+        state,
+        rulesByDomain,
+        config,
+        activeWindowId,
+      );
+      const toRemove = new Set<TabId>();
+      for (const { tabId, loaded } of changes) {
+        const tab = state.allTabs.find((t) => t.id === tabId);
+        if (!loaded || !tab) continue;
+        this.service
+          .getDuplicateTabIds(
+            tab,
+            state.allTabs,
+            rulesByDomain,
+            config,
+            context,
+          )
+          .forEach((tid) => toRemove.add(tid));
+      }
+      if (toRemove.size > 0) {
+        changed = true;
+        await this.adapter.archiveTabs(this.toArchiveEntries(state, toRemove));
+        await this.adapter.removeTabs([...toRemove]);
+        state = await this.refreshState();
+      }
+
+      const { protectedMeta, managedGroupIds } =
+        this.service.identifyProtectedTabs(
+          state.allTabs,
+          state.groupIdToGroup,
+          rulesByDomain,
+          config.protectedGroupTitles ?? [],
+          state.managedGroups,
+        );
+      const changedIds = new Set(
+        changes.map((c) => asTabId(c.tabId)).filter(isDefined),
+      );
+      const windowIds = new Set(
+        state.allTabs
+          .filter((t) => changedIds.has(asTabId(t.id)!))
+          .map((t) => asWindowId(t.windowId)),
+      );
+      for (const wid of windowIds) {
+        const plan = this.service.limitMembershipPlan(
+          this.planMembership(
+            state,
+            wid,
+            rulesByDomain,
+            false,
+            protectedMeta,
+            managedGroupIds,
+            config,
+          ),
+          changedIds,
+          state.allTabs,
+        );
+        if (plan.toUngroup.length === 0 && plan.toGroup.length === 0) continue;
+        changed = true;
+        const res = await this.adapter.executeMembershipPlan(
+          plan,
+          state.allTabs,
+          state.groupIdToGroup,
+        );
+        if (!res.success) throw res.error;
+        state = await this.refreshState();
+      }
+    } catch (err) {
+      console.warn("Auto mode error:", err);
+    } finally {
+      this.isProcessing = false;
+      if (changed) this.lastRunEndedAt = Date.now();
+    }
+  }
+
+  /** Groups and sorts the focused window only. */
+  async groupWindow(): Promise<void> {
+    const windowId = await this.ensureActiveWindowId();
+    return this.execute(["group", "sort"], asWindowId(windowId));
+  }
+
+  /**
+   * Collapses every group in the focused window except the active tab's.
+   */
+  async collapseOtherGroups(): Promise<void> {
+    const [state, windowId] = await Promise.all([
+      this.refreshState(),
+      this.ensureActiveWindowId(),
+    ]);
+    const activeTab = state.allTabs.find(
+      (t) => t.active && t.windowId === windowId,
+    );
+    const toCollapse = [...state.groupIdToGroup.values()]
+      .filter(
+        (g) =>
+          g.windowId === windowId &&
+          !g.collapsed &&
+          g.id !== activeTab?.groupId,
+      )
+      .map((g) => asGroupId(g.id));
+    if (toCollapse.length > 0) await this.adapter.collapseGroups(toCollapse);
   }
 }
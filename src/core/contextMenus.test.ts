@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { SyncStoreState } from "@/types";
+import { TabGroupingService } from "utils/grouping";
+import { applyContextMenuAction, handleContextMenuClick } from "./contextMenus";
+import { mkTab } from "./test-utils";
+
+describe("applyContextMenuAction", () => {
+  const service = new TabGroupingService();
+  const empty: SyncStoreState = { rules: [], grouping: { byWindow: false } };
+  const tab = mkTab(1, "https://www.github.com/org/repo/issues");
+
+  it("creates a rule for the page's domain once", () => {
+    const next = applyContextMenuAction(
+      empty,
+      "createRule",
+      tab,
+      null,
+      service,
+    );
+    expect(next?.rules).toEqual([
+      expect.objectContaining({ domain: "github.com", autoDelete: false }),
+    ]);
+    expect(
+      applyContextMenuAction(next!, "createRule", tab, null, service),
+    ).toBeNull();
+  });
+
+  it("splits by path at the page's deepest segment", () => {
+    const next = applyContextMenuAction(
+      empty,
+      "splitByPath",
+      tab,
+      null,
+      service,
+    );
+    expect(next?.rules[0]).toMatchObject({
+      domain: "github.com",
+      splitByPath: 3,
+    });
+  });
+
+  it("turns on auto-delete and clears grouping fields of an existing rule", () => {
+    const state: SyncStoreState = {
+      ...empty,
+      rules: [{ id: "r1", domain: "github.com", splitByPath: 2 }],
+    };
+    const next = applyContextMenuAction(
+      state,
+      "autoDelete",
+      tab,
+      null,
+      service,
+    );
+    expect(next?.rules).toEqual([
+      expect.objectContaining({
+        id: "r1",
+        autoDelete: true,
+        splitByPath: null,
+      }),
+    ]);
+  });
+
+  it("protects titled groups only", () => {
+    expect(
+      applyContextMenuAction(empty, "protectGroup", tab, "", service),
+    ).toBeNull();
+    const next = applyContextMenuAction(
+      empty,
+      "protectGroup",
+      tab,
+      "Research",
+      service,
+    );
+    expect(next?.grouping.protectedGroupTitles).toEqual(["Research"]);
+  });
+
+  it("ignores non-web pages", () => {
+    expect(
+      applyContextMenuAction(
+        empty,
+        "createRule",
+        mkTab(2, "chrome://settings"),
+        null,
+        service,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("handleContextMenuClick", () => {
+  const mkStore = () => ({
+    getState: vi.fn().mockResolvedValue({
+      rules: [],
+      grouping: { byWindow: false },
+    }),
+    setState: vi.fn().mockResolvedValue(undefined),
+    onChange: vi.fn(),
+  });
+  const controller = { excludeTab: vi.fn().mockResolvedValue(undefined) };
+
+  it("writes only the key the action changed", async () => {
+    const store = mkStore();
+
+    expect(
+      await handleContextMenuClick(
+        store,
+        controller,
+        "createRule",
+        mkTab(1, "https://github.com/org"),
+        new TabGroupingService(),
+      ),
+    ).toBe(true);
+    expect(store.setState).toHaveBeenCalledWith({
+      rules: [expect.objectContaining({ domain: "github.com" })],
+    });
+  });
+
+  it("excludes the tab for the session instead of writing a rule", async () => {
+    const store = mkStore();
+
+    expect(
+      await handleContextMenuClick(
+        store,
+        controller,
+        "excludeTab",
+        mkTab(4, "https://github.com/org/repo/issues"),
+        new TabGroupingService(),
+      ),
+    ).toBe(true);
+    expect(controller.excludeTab).toHaveBeenCalledWith(4);
+    expect(store.setState).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import { SyncStoreState, Tab, asTabId, isGrouped, upsertRule } from "@/types";
+
+import TabGroupingController from "core/TabGroupingController";
+import { TabGroupingService } from "utils/grouping";
+import startSyncStore from "utils/startSyncStore";
+
+export type ContextMenuAction =
+  | "createRule"
+  | "splitByPath"
+  | "autoDelete"
+  | "excludeTab"
+  | "protectGroup";
+
+const MENU_TITLE_KEYS: Record<ContextMenuAction, string> = {
+  createRule: "contextMenuCreateRule",
+  splitByPath: "contextMenuSplitByPath",
+  autoDelete: "contextMenuAutoDelete",
+  excludeTab: "contextMenuExcludeTab",
+  protectGroup: "contextMenuProtectGroup",
+};
+
+const isContextMenuAction = (id: string): id is ContextMenuAction =>
+  id in MENU_TITLE_KEYS;
+
+type RuleStore = Awaited<ReturnType<typeof startSyncStore>>;
+
+/**
+ * (Re)creates the menu entries. Items persist across restarts, so this only
+ * needs to run from `runtime.onInstalled`.
+ */
+export function registerContextMenus(): void {
+  const supportsTabContext =
+    (Object.values(chrome.contextMenus.ContextType ?? {}) as string[]).includes(
+      "tab",
+    ) || chrome.runtime.getURL("").startsWith("moz-extension:");
+
+  chrome.contextMenus.removeAll(() => {
+    for (const [id, titleKey] of Object.entries(MENU_TITLE_KEYS)) {
+      chrome.contextMenus.create({
+        id,
+        title: chrome.i18n.getMessage(titleKey),
+        contexts: supportsTabContext ? ["page", "tab"] : ["page"],
+        documentUrlPatterns: ["http://*/*", "https://*/*"],
+      });
+    }
+  });
+}
+
+function pathSegments(url: URL): string[] {
+  return decodeURI(url.pathname).split("/").filter(Boolean);
+}
+
+/**
+ * Computes the store update for a menu action on `tab`, or null when the
+ * action does not apply (non-web page, ungrouped tab, nothing to change).
+ * `excludeTab` is a session exception for the tab, not a store update.
+ */
+export function applyContextMenuAction(
+  state: SyncStoreState,
+  action: Exclude<ContextMenuAction, "excludeTab">,
+  tab: Tab,
+  groupTitle: string | null,
+  service: TabGroupingService,
+): SyncStoreState | null {
+  if (!tab.url || !/^https?:/.test(tab.url)) return null;
+  const url = new URL(tab.url);
+  const domain = service.getDomain(tab.url);
+  const rules = state.rules || [];
+
+  switch (action) {
+    case "createRule":
+      if (rules.some((r) => r.domain === domain)) return null;
+      return { ...state, rules: upsertRule(rules, domain, {}) };
+    case "splitByPath": {
+      const depth = pathSegments(url).length;
+      if (depth === 0) return null;
+      return {
+        ...state,
+        rules: upsertRule(rules, domain, { splitByPath: depth }),
+      };
+    }
+    case "autoDelete":
+      // Same as ticking Delete on the options page, which clears grouping fields
+      return {
+        ...state,
+        rules: upsertRule(rules, domain, {
+          autoDelete: true,
+          splitByPath: null,
+          groupName: undefined,
+        }),
+      };
+    case "protectGroup": {
+      // Protection is keyed by title, so untitled groups can't be protected
+      if (!groupTitle) return null;
+      const titles = state.grouping.protectedGroupTitles ?? [];
+      if (titles.includes(groupTitle)) return null;
+      return {
+        ...state,
+        grouping: {
+          ...state.grouping,
+          protectedGroupTitles: [...titles, groupTitle],
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Applies a clicked menu item to the store, or for `excludeTab` to the
+ * controller's grouping exceptions. Returns true when something changed, so
+ * the caller can refresh the badge.
+ */
+export async function handleContextMenuClick(
+  store: RuleStore,
+  controller: Pick<TabGroupingController, "excludeTab">,
+  menuItemId: string,
+  tab: Tab | undefined,
+  service: TabGroupingService,
+): Promise<boolean> {
+  if (!tab || !isContextMenuAction(menuItemId)) return false;
+  if (menuItemId === "excludeTab") {
+    if (tab.id === undefined) return false;
+    await controller.excludeTab(asTabId(tab.id)!);
+    return true;
+  }
+
+  const groupTitle =
+    isGrouped(tab) && typeof chrome.tabGroups !== "undefined"
+      ? ((await chrome.tabGroups.get(tab.groupId)).title ?? "")
+      : null;
+  const state = await store.getState();
+  const next = applyContextMenuAction(
+    state,
+    menuItemId,
+    tab,
+    groupTitle,
+    service,
+  );
+  if (!next) return false;
+  // Only the changed key, so concurrent writes to the other one survive
+  await store.setState(
+    next.rules !== state.rules
+      ? { rules: next.rules }
+      : { grouping: next.grouping },
+  );
+  return true;
+}
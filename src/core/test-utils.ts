@@ -5,9 +5,11 @@ import { vi } from "vitest";
 export const mockState = {
   currentTabs: [] as Tab[],
   currentGroups: new Map<number, chrome.tabGroups.TabGroup>(),
+  session: new Map<string, unknown>(),
   reset: () => {
     mockState.currentTabs.length = 0;
     mockState.currentGroups.clear();
+    mockState.session.clear();
   },
 };
 
@@ -155,6 +157,25 @@ export const mockChrome = {
       }),
       set: vi.fn().mockResolvedValue(undefined),
     },
+    session: {
+      get: vi
+        .fn()
+        .mockImplementation((key: string) =>
+          Promise.resolve(
+            mockState.session.has(key)
+              ? { [key]: mockState.session.get(key) }
+              : {},
+          ),
+        ),
+      set: vi.fn().mockImplementation((data: Record<string, unknown>) => {
+        for (const [k, v] of Object.entries(data)) mockState.session.set(k, v);
+        return Promise.resolve();
+      }),
+      remove: vi.fn().mockImplementation((key: string) => {
+        mockState.session.delete(key);
+        return Promise.resolve();
+      }),
+    },
     onChanged: { addListener: vi.fn(), removeListener: vi.fn() },
   },
   action: {
@@ -213,6 +234,26 @@ export const mockChrome = {
       );
       return Promise.resolve();
     }),
+    create: vi.fn().mockImplementation((props) => {
+      const id = Math.max(0, ...mockState.currentTabs.map((t) => t.id!)) + 1;
+      const tab = mkTab(id, props.url, {
+        windowId: props.windowId ?? 1,
+        pinned: props.pinned,
+      });
+      mockState.currentTabs.push(tab);
+      moveTabsInMock([id], props.index ?? -1, tab.windowId);
+      return Promise.resolve(tab);
+    }),
+    update: vi.fn().mockImplementation((id, props) => {
+      const tab = mockState.currentTabs.find((t) => t.id === id);
+      if (tab) Object.assign(tab, props);
+      return Promise.resolve(tab);
+    }),
+    discard: vi.fn().mockImplementation((id) => {
+      const tab = mockState.currentTabs.find((t) => t.id === id);
+      if (tab) tab.discarded = true;
+      return Promise.resolve(tab);
+    }),
     onCreated: { addListener: vi.fn() },
     onRemoved: { addListener: vi.fn() },
     onUpdated: { addListener: vi.fn() },
@@ -0,0 +1,16 @@
+import "./index.css";
+
+import PopupApp from "./PopupApp.tsx";
+import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+
+if (typeof chrome !== "undefined" && chrome.i18n) {
+  document.title =
+    chrome.i18n.getMessage("appName") || "Tab Group Dedup Manager";
+}
+
+createRoot(document.getElementById("root")!).render(
+  <StrictMode>
+    <PopupApp />
+  </StrictMode>,
+);
@@ -9,22 +9,366 @@ export type WindowId = number & { readonly __brand: "WindowId" };
 
 export interface Rule {
   id?: string;
+  /** Host (`example.com`, `*.example.com`) with an optional path pattern (`/docs/*`). */
   domain: string;
-  autoDelete?: boolean | null | undefined;
+  autoDelete?: boolean | TabCondition | null | undefined;
+  /** Unloads matching tabs (`chrome.tabs.discard`) instead of closing them. */
+  discard?: boolean | TabCondition | null | undefined;
   groupName?: string | null | undefined;
   splitByPath?: number | null | undefined;
+  color?: GroupColor | null | undefined;
+  ignoredQueryParams?: string[] | null | undefined;
+  skipDedup?: boolean | null | undefined;
+  /** Leaves matching tabs alone: never closed, discarded or put in a managed group. */
+  exclude?: boolean | null | undefined;
+  /** Groups of lower-priority rules come first in their category; unset sorts last. */
+  priority?: number | null | undefined;
 }
 
+/** Limits a rule action (auto-delete, discard) to tabs meeting every set criterion. */
+export interface TabCondition {
+  /** Minutes since the tab was last accessed. */
+  idleMinutes?: number | null | undefined;
+  /** Spare tabs that are active in their window or playing audio. */
+  skipActiveOrAudible?: boolean | null | undefined;
+  /** Only act on tabs inside a collapsed tab group. */
+  onlyCollapsedGroups?: boolean | null | undefined;
+}
+
+export type GroupColor = `${chrome.tabGroups.Color}`;
+
+export const GROUP_COLORS: readonly GroupColor[] = [
+  "grey",
+  "blue",
+  "red",
+  "yellow",
+  "green",
+  "pink",
+  "purple",
+  "cyan",
+  "orange",
+];
+
 export interface RulesByDomain {
   [domain: string]: Rule;
 }
+export interface UrlNormalizationConfig {
+  stripTrackingParams?: boolean | null | undefined;
+  ignoreFragment?: boolean | null | undefined;
+  ignoreTrailingSlash?: boolean | null | undefined;
+  foldScheme?: boolean | null | undefined;
+  foldWww?: boolean | null | undefined;
+}
+
+// Fragments stay significant by default: hash-routed apps use them as page identity
+export const DEFAULT_URL_NORMALIZATION: UrlNormalizationConfig = {
+  stripTrackingParams: true,
+  ignoreFragment: false,
+  ignoreTrailingSlash: true,
+  foldScheme: true,
+  foldWww: true,
+};
+
+/** Which duplicate survives dedup; preferences are applied in order until one differs. */
+export type DedupKeepPreference =
+  | "active"
+  | "pinned"
+  | "protectedGroup"
+  | "activeWindow"
+  | "recent"
+  | "oldest";
+
+export const DEDUP_KEEP_PREFERENCES: readonly DedupKeepPreference[] = [
+  "active",
+  "pinned",
+  "protectedGroup",
+  "activeWindow",
+  "recent",
+  "oldest",
+];
+
+export const DEFAULT_DEDUP_KEEP_POLICY: DedupKeepPreference[] = [
+  "active",
+  "pinned",
+  "protectedGroup",
+];
+
 export interface GroupingConfig {
   byWindow: boolean;
   numWindowsToKeep?: number | null | undefined;
   ungroupSingleTab?: boolean | null | undefined;
   sortManualGroupTabs?: boolean | null | undefined;
+  /** Slots new/navigated tabs into their domain group (and dedups them) as they change. */
+  autoMode?: boolean | null | undefined;
+  urlNormalization?: UrlNormalizationConfig | null | undefined;
+  dedupKeepPolicy?: DedupKeepPreference[] | null | undefined;
+  /** Rule-style URL patterns (`mail.google.com`, `*.grafana.net/d/*`) never deduplicated. */
+  dedupExemptPatterns?: string[] | null | undefined;
+  /** Closes surplus blank/new-tab pages; defaults to "off" (see `InternalPagePolicy`). */
+  blankTabCleanup?: BlankTabCleanup | null | undefined;
+  /** Group titles always treated as manual groups, even when they match a rule. */
+  protectedGroupTitles?: string[] | null | undefined;
+  /** Periodic run (`chrome.alarms`). */
+  scheduledRun?: RunTrigger | null | undefined;
+  /** Run when the machine goes idle or locks (`chrome.idle`). */
+  idleRun?: RunTrigger | null | undefined;
+  /** What happens when the user renames a managed group; defaults to "protect". */
+  groupRenamePolicy?: GroupRenamePolicy | null | undefined;
+  /** How groups are ordered within their category and tabs within a group. */
+  sortStrategy?: SortStrategyConfig | null | undefined;
+  /** Left-to-right order of the tab strip categories; defaults to `TAB_CATEGORIES`. */
+  categoryOrder?: TabCategory[] | null | undefined;
+  /** Defaults to "sorted". */
+  layoutMode?: LayoutMode | null | undefined;
+  /** Defaults to "front". */
+  internalPagePolicy?: InternalPagePolicy | null | undefined;
 }
 
+/** The `GroupingConfig` fields that decide the tab strip order. */
+export type OrderingConfig = Pick<
+  GroupingConfig,
+  | "sortManualGroupTabs"
+  | "sortStrategy"
+  | "categoryOrder"
+  | "layoutMode"
+  | "internalPagePolicy"
+>;
+
+/**
+ * What happens to unpinned internal pages (`chrome://`, `about:`, `file:`, extension pages):
+ * - `front`: they form the `internal` category, placed by `categoryOrder` (first by default).
+ * - `end`: the `internal` category always comes last.
+ * - `inPlace`: each keeps its slot while everything else is sorted around it.
+ * - `group`: they all share one "Browser" group.
+ * - `closeSurplusNewTabs`: like `front`, and `blankTabCleanup` defaults to `keepOne`.
+ */
+export type InternalPagePolicy =
+  | "front"
+  | "end"
+  | "inPlace"
+  | "group"
+  | "closeSurplusNewTabs";
+
+export const INTERNAL_PAGE_POLICIES: readonly InternalPagePolicy[] = [
+  "front",
+  "end",
+  "inPlace",
+  "group",
+  "closeSurplusNewTabs",
+];
+
+/**
+ * - `sorted`: category order, rule priority and sort strategies decide the layout.
+ * - `stable`: groups form at their left-most member and everything else keeps
+ *   its relative order, so only the tabs needed to close up groups move.
+ */
+export type LayoutMode = "sorted" | "stable";
+
+export const LAYOUT_MODES: readonly LayoutMode[] = ["sorted", "stable"];
+
+/**
+ * - `title`: alphabetical by group title (tabs by tab title).
+ * - `url`: by domain, then URL.
+ * - `lastAccessed`: most recently used first.
+ * - `creation`: oldest first (tab ids grow with creation).
+ * - `size`: largest group first (tabs fall back to `title`).
+ * - `preserve`: keep the current order.
+ */
+export type SortStrategy =
+  | "title"
+  | "url"
+  | "lastAccessed"
+  | "creation"
+  | "size"
+  | "preserve";
+
+export const SORT_STRATEGIES: readonly SortStrategy[] = [
+  "title",
+  "url",
+  "lastAccessed",
+  "creation",
+  "size",
+  "preserve",
+];
+
+/** The tab strip categories, in their default order. */
+export type TabCategory = "internal" | "managed" | "manual" | "solo";
+
+export const TAB_CATEGORIES: readonly TabCategory[] = [
+  "internal",
+  "managed",
+  "manual",
+  "solo",
+];
+
+/** Per-category strategies; unset categories use `default`, then `title`. */
+export type SortStrategyConfig = {
+  default?: SortStrategy | null | undefined;
+} & { [K in TabCategory]?: SortStrategy | null | undefined };
+
+/**
+ * Per window, among unpinned blank and new-tab pages:
+ * - `off`: they are left alone.
+ * - `keepOne`: one survives, picked by `dedupKeepPolicy`.
+ * - `keepActive`: only the active one survives, if it is one of them.
+ */
+export type BlankTabCleanup = "off" | "keepOne" | "keepActive";
+
+export const BLANK_TAB_CLEANUP_MODES: readonly BlankTabCleanup[] = [
+  "off",
+  "keepOne",
+  "keepActive",
+];
+
+/**
+ * - `protect`: the group becomes a manual group.
+ * - `revert`: the generated title is restored.
+ * - `updateRule`: the popup offers to make the new title the rule's `groupName`.
+ */
+export type GroupRenamePolicy = "protect" | "revert" | "updateRule";
+
+export const GROUP_RENAME_POLICIES: readonly GroupRenamePolicy[] = [
+  "protect",
+  "revert",
+  "updateRule",
+];
+
+/** A user rename waiting for the popup to accept it as a rule's `groupName`. */
+export interface RenameOffer {
+  readonly groupId: GroupId;
+  /** `domain` of the rule to update (a new rule is added when none matches). */
+  readonly domain: string;
+  readonly title: string;
+}
+
+/** A tab closed by cleanup, kept in a bounded archive so it can be restored. */
+export interface ArchivedTab {
+  readonly id: string;
+  readonly url: string;
+  readonly title: string;
+  readonly groupTitle?: string | null;
+  readonly windowId: WindowId;
+  readonly closedAt: number;
+}
+
+export const ARCHIVE_STORAGE_KEY = "archive";
+export const ARCHIVE_LIMIT = 500;
+
+export interface TabSnapshot {
+  readonly id: TabId;
+  readonly url: string;
+  readonly windowId: WindowId;
+  readonly index: number;
+  readonly pinned: boolean;
+  readonly groupId: GroupId | null;
+}
+
+export interface GroupSnapshot {
+  readonly id: GroupId;
+  readonly windowId: WindowId;
+  readonly title: string;
+  readonly color: GroupColor;
+  readonly collapsed: boolean;
+  /** Recorded as extension-managed when the snapshot was taken. */
+  readonly managed?: boolean;
+}
+
+/** Browser layout captured before a run, so that run can be undone. */
+export interface RunSnapshot {
+  readonly takenAt: number;
+  readonly tabs: TabSnapshot[];
+  readonly groups: GroupSnapshot[];
+  /** Snapshot tabs closed by the run's cleanup phase. */
+  readonly closedTabIds: TabId[];
+}
+
+export interface PreviewTab {
+  readonly id: TabId;
+  readonly title: string;
+  readonly url: string;
+}
+
+/** What a run would change, computed without touching the browser (dry run). */
+export interface RunPreview {
+  readonly toClose: PreviewTab[];
+  readonly toDiscard: PreviewTab[];
+  readonly windowMoves: (PreviewTab & {
+    fromWindowId: WindowId;
+    toWindowId: WindowId;
+  })[];
+  readonly groupsCreated: { title: string; tabCount: number }[];
+  readonly groupsRenamed: { from: string; to: string }[];
+  readonly groupsDissolved: string[];
+  /** Group/tab units the ordering pass would move. */
+  readonly reorderCount: number;
+}
+
+/** Pipeline phases of a run; `execute` runs all of them by default. */
+export type RunPhase =
+  | "dedup"
+  | "autoDelete"
+  | "consolidate"
+  | "group"
+  | "sort";
+
+export const RUN_PHASES: readonly RunPhase[] = [
+  "dedup",
+  "autoDelete",
+  "consolidate",
+  "group",
+  "sort",
+];
+
+/** A run started by the browser rather than the user, limited to its own phases. */
+export interface RunTrigger {
+  enabled: boolean;
+  /** Alarm period for `scheduledRun`, idle threshold for `idleRun`. */
+  minutes: number;
+  phases: RunPhase[];
+}
+
+export type RunTriggerName = "scheduledRun" | "idleRun";
+
+export const DEFAULT_RUN_TRIGGERS: Record<RunTriggerName, RunTrigger> = {
+  scheduledRun: { enabled: false, minutes: 60, phases: [...RUN_PHASES] },
+  // Idle runs leave the order alone, so nothing jumps around on return
+  idleRun: {
+    enabled: false,
+    minutes: 10,
+    phases: ["dedup", "autoDelete", "consolidate"],
+  },
+};
+
+/** Structured result of the lightweight analysis behind the badge and popup. */
+export interface RunAnalysis {
+  /** Tabs cleanup would close (duplicates and auto-delete). */
+  readonly closeCount: number;
+  /** Tabs whose group membership the grouping pass would change. */
+  readonly pendingGroupingCount: number;
+  /** Groups/tabs the ordering pass would reposition. */
+  readonly reorderCount: number;
+  readonly windowCount: number;
+  /** Windows kept by consolidation; null when it is off. */
+  readonly numWindowsToKeep: number | null;
+  readonly currentWindowGroups: {
+    id: GroupId;
+    title: string;
+    color: GroupColor;
+    collapsed: boolean;
+    tabCount: number;
+  }[];
+  /** Renamed groups waiting to be accepted as a rule's `groupName`. */
+  readonly renameOffers: RenameOffer[];
+}
+
+/** Messages accepted by the background script (`chrome.runtime.sendMessage`). */
+export type RuntimeMessage =
+  | { type: "execute"; phases?: RunPhase[] }
+  | { type: "analyze" }
+  | { type: "preview" }
+  | { type: "undoLastRun" }
+  | { type: "resolveRenameOffer"; groupId: GroupId; accept: boolean };
+
 export interface SyncStoreState {
   rules: Rule[];
   grouping: GroupingConfig;
@@ -37,8 +381,13 @@ export interface GroupMapEntry {
   readonly displayName: string;
   readonly domains: ReadonlySet<Domain>;
   readonly isExternal?: boolean;
+  /** Excluded tab or grouping exception: a solo unit never merged into a group. */
+  readonly isolated?: boolean;
   readonly groupId?: GroupId | null;
   readonly collapsed?: boolean;
+  readonly color?: GroupColor;
+  /** `priority` of the rule behind the key. */
+  readonly priority?: number | null;
 }
 
 export type GroupMap = Map<string, GroupMapEntry>;
@@ -51,7 +400,10 @@ export interface GroupState {
   readonly collapsed: boolean;
   readonly needsReposition: boolean;
   readonly isExternal?: boolean;
+  readonly isolated?: boolean;
   readonly targetIndex?: number;
+  readonly color?: GroupColor;
+  readonly priority?: number | null;
 }
 
 export interface MembershipPlan {
@@ -61,6 +413,9 @@ export interface MembershipPlan {
     groupId: GroupId | null;
     title: string;
     collapsed: boolean;
+    color?: GroupColor;
+    /** A manual group being re-bundled; never recorded as managed. */
+    isExternal?: boolean;
   }[];
   targetWindowId: WindowId;
 }
@@ -86,13 +441,30 @@ export interface ConsolidationPlan {
   readonly tabMoves: ReadonlyArray<{ tabIds: number[]; windowId: WindowId }>;
 }
 
+export interface CleanupContext {
+  readonly activeWindowId?: WindowId;
+  readonly protectedTabIds?: ReadonlySet<TabId>;
+  /** Reference time (ms) for idle checks; defaults to `Date.now()`. */
+  readonly now?: number;
+  readonly collapsedGroupIds?: ReadonlySet<GroupId>;
+  /** Skip duplicate detection (auto-delete only). */
+  readonly skipDedup?: boolean;
+  /** Skip auto-delete rules (deduplication only). */
+  readonly skipAutoDelete?: boolean;
+}
+
 export interface BrowserState {
   allTabs: Tab[];
   groupIdToGroup: Map<number, chrome.tabGroups.TabGroup>;
+  /** Registry of groups the extension created or adopted; null falls back to title matching. */
+  managedGroups?: ReadonlySet<number> | null;
+  /** Tabs the user dragged out of a managed group; grouping leaves them alone. */
+  groupingExceptions?: ReadonlySet<number> | null;
 }
 
 export interface SyncStore {
   getState: () => Promise<SyncStoreState>;
+  setState: (data: Partial<SyncStoreState>) => Promise<SyncStoreState>;
 }
 
 export type Result<T, E> =
@@ -128,12 +500,48 @@ export function isGrouped(tab: Tab): boolean {
   return tab.groupId != null && tab.groupId !== -1;
 }
 
+function validateTabCondition(c: unknown): c is TabCondition {
+  if (typeof c !== "object" || c === null || Array.isArray(c)) return false;
+  const condition = c as Record<string, unknown>;
+  if (
+    condition.idleMinutes != null &&
+    (typeof condition.idleMinutes !== "number" || condition.idleMinutes <= 0)
+  )
+    return false;
+  if (
+    condition.skipActiveOrAudible != null &&
+    typeof condition.skipActiveOrAudible !== "boolean"
+  )
+    return false;
+  if (
+    condition.onlyCollapsedGroups != null &&
+    typeof condition.onlyCollapsedGroups !== "boolean"
+  )
+    return false;
+  return true;
+}
+
 export function validateRule(r: unknown): r is Rule {
   if (typeof r !== "object" || r === null) return false;
   const rule = r as Record<string, unknown>;
   if (typeof rule.domain !== "string" || rule.domain.length === 0) return false;
+  // Host wildcards are only allowed as a leading "*." label (e.g. "*.atlassian.net");
+  // an optional path pattern may follow (e.g. "docs.google.com/spreadsheets/*")
+  const host = rule.domain.split("/")[0];
+  if (host.length === 0 || (host.includes("*") && !/^\*\.[^*]+$/.test(host)))
+    return false;
 
-  if (rule.autoDelete != null && typeof rule.autoDelete !== "boolean")
+  if (
+    rule.autoDelete != null &&
+    typeof rule.autoDelete !== "boolean" &&
+    !validateTabCondition(rule.autoDelete)
+  )
+    return false;
+  if (
+    rule.discard != null &&
+    typeof rule.discard !== "boolean" &&
+    !validateTabCondition(rule.discard)
+  )
     return false;
   if (rule.groupName != null && typeof rule.groupName !== "string")
     return false;
@@ -142,10 +550,48 @@ export function validateRule(r: unknown): r is Rule {
     (typeof rule.splitByPath !== "number" || rule.splitByPath < 1)
   )
     return false;
+  if (rule.color != null && !GROUP_COLORS.includes(rule.color as GroupColor))
+    return false;
+  if (
+    rule.ignoredQueryParams != null &&
+    (!Array.isArray(rule.ignoredQueryParams) ||
+      !rule.ignoredQueryParams.every((p) => typeof p === "string"))
+  )
+    return false;
+  if (rule.skipDedup != null && typeof rule.skipDedup !== "boolean")
+    return false;
+  if (rule.exclude != null && typeof rule.exclude !== "boolean") return false;
+  if (
+    rule.priority != null &&
+    (typeof rule.priority !== "number" || !Number.isFinite(rule.priority))
+  )
+    return false;
 
   return true;
 }
 
+/** Patches the rule for `domain`, or appends a new rule with default fields. */
+export function upsertRule(
+  rules: Rule[],
+  domain: string,
+  patch: Partial<Rule>,
+): Rule[] {
+  const existing = rules.find((r) => r.domain === domain);
+  if (existing) {
+    return rules.map((r) => (r === existing ? { ...r, ...patch } : r));
+  }
+  return [
+    ...rules,
+    {
+      id: crypto.randomUUID(),
+      domain,
+      autoDelete: false,
+      splitByPath: null,
+      ...patch,
+    },
+  ];
+}
+
 export function validateGroupingConfig(c: unknown): c is GroupingConfig {
   if (typeof c !== "object" || c === null) return false;
   const config = c as Record<string, unknown>;
@@ -165,6 +611,91 @@ export function validateGroupingConfig(c: unknown): c is GroupingConfig {
     typeof config.sortManualGroupTabs !== "boolean"
   )
     return false;
+  if (config.autoMode != null && typeof config.autoMode !== "boolean")
+    return false;
+  if (config.urlNormalization != null) {
+    if (typeof config.urlNormalization !== "object") return false;
+    const flags = Object.values(config.urlNormalization);
+    if (!flags.every((f) => f == null || typeof f === "boolean")) return false;
+  }
+  if (
+    config.dedupKeepPolicy != null &&
+    (!Array.isArray(config.dedupKeepPolicy) ||
+      !config.dedupKeepPolicy.every((p) =>
+        DEDUP_KEEP_PREFERENCES.includes(p as DedupKeepPreference),
+      ))
+  )
+    return false;
+  if (
+    config.dedupExemptPatterns != null &&
+    (!Array.isArray(config.dedupExemptPatterns) ||
+      !config.dedupExemptPatterns.every((p) => typeof p === "string"))
+  )
+    return false;
+  if (
+    config.blankTabCleanup != null &&
+    !BLANK_TAB_CLEANUP_MODES.includes(config.blankTabCleanup as BlankTabCleanup)
+  )
+    return false;
+  if (
+    config.groupRenamePolicy != null &&
+    !GROUP_RENAME_POLICIES.includes(
+      config.groupRenamePolicy as GroupRenamePolicy,
+    )
+  )
+    return false;
+  if (
+    config.protectedGroupTitles != null &&
+    (!Array.isArray(config.protectedGroupTitles) ||
+      !config.protectedGroupTitles.every((t) => typeof t === "string"))
+  )
+    return false;
+  if (config.sortStrategy != null) {
+    if (typeof config.sortStrategy !== "object") return false;
+    const strategies = Object.values(config.sortStrategy);
+    if (
+      !strategies.every(
+        (st) => st == null || SORT_STRATEGIES.includes(st as SortStrategy),
+      )
+    )
+      return false;
+  }
+  if (
+    config.internalPagePolicy != null &&
+    !INTERNAL_PAGE_POLICIES.includes(
+      config.internalPagePolicy as InternalPagePolicy,
+    )
+  )
+    return false;
+  if (
+    config.layoutMode != null &&
+    !LAYOUT_MODES.includes(config.layoutMode as LayoutMode)
+  )
+    return false;
+  if (
+    config.categoryOrder != null &&
+    (!Array.isArray(config.categoryOrder) ||
+      config.categoryOrder.length !== TAB_CATEGORIES.length ||
+      !TAB_CATEGORIES.every((c) =>
+        (config.categoryOrder as unknown[]).includes(c),
+      ))
+  )
+    return false;
+  for (const name of ["scheduledRun", "idleRun"] as const) {
+    if (config[name] != null && !validateRunTrigger(config[name])) return false;
+  }
 
   return true;
 }
+
+function validateRunTrigger(t: unknown): t is RunTrigger {
+  if (typeof t !== "object" || t === null) return false;
+  const trigger = t as Record<string, unknown>;
+  return (
+    typeof trigger.enabled === "boolean" &&
+    typeof trigger.minutes === "number" &&
+    trigger.minutes >= 1 &&
+    Array.isArray(trigger.phases) &&
+    trigger.phases.every((p) => RUN_PHASES.includes(p as RunPhase))
+  );
+}
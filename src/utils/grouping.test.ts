@@ -1,5 +1,8 @@
 import {
+  CleanupContext,
+  DedupKeepPreference,
   GroupState,
+  GroupingConfig,
   OrderUnit,
   ProtectedTabMetaMap,
   RulesByDomain,
@@ -12,7 +15,13 @@ import {
 } from "@/types";
 import { beforeEach, describe, expect, it } from "vitest";
 
-import { TabGroupingService, WindowManagementService } from "./grouping";
+import {
+  INTERNAL_GROUP_TITLE,
+  TabGroupingService,
+  WindowManagementService,
+  canonicalizeUrl,
+  hashGroupColor,
+} from "./grouping";
 import fc from "fast-check";
 import { mkTab } from "core/test-utils";
 
@@ -185,6 +194,492 @@ describe("TabGroupingService", () => {
       expect(r.key).toBe("google.com::search");
       expect(r.title).toBe("search - google.com");
     });
+
+    it("uses the rule color, else a stable color hashed from the group name", () => {
+      const rules: RulesByDomain = {
+        "github.com": { domain: "github.com", color: "purple" },
+      };
+      expect(
+        service.getGroupKey(asDomain("github.com"), undefined, rules).color,
+      ).toBe("purple");
+
+      const unruled = service.getGroupKey(asDomain("news.com"), undefined, {});
+      expect(unruled.color).toBe(hashGroupColor("news.com"));
+      expect(
+        service.getGroupKey(asDomain("news.com"), "https://news.com/a", {})
+          .color,
+      ).toBe(unruled.color);
+    });
+
+    it("carries the group color into the membership plan", () => {
+      const rules: RulesByDomain = {
+        "github.com": { domain: "github.com", color: "cyan" },
+      };
+      const tabs = [
+        mkTab(1, "https://github.com/a"),
+        mkTab(2, "https://github.com/b", { index: 1 }),
+      ];
+      const cache = new Map(tabs.map((t) => [asTabId(t.id)!, t]));
+      const states = service.buildGroupStates(
+        service.buildGroupMap(tabs, rules),
+        cache,
+      );
+      const plan = service.buildMembershipPlan(
+        states,
+        cache,
+        new Map(),
+        asWindowId(1),
+      );
+      expect(plan.toGroup[0].color).toBe("cyan");
+    });
+  });
+
+  describe("findRule() wildcard matching", () => {
+    const rules: RulesByDomain = {
+      "*.atlassian.net": { domain: "*.atlassian.net", groupName: "Jira" },
+      "*.eu.atlassian.net": { domain: "*.eu.atlassian.net", groupName: "EU" },
+      "status.atlassian.net": { domain: "status.atlassian.net" },
+    };
+
+    it("matches subdomains and the bare domain by suffix", () => {
+      expect(
+        service.findRule(asDomain("acme.atlassian.net"), undefined, rules)
+          ?.groupName,
+      ).toBe("Jira");
+      expect(
+        service.findRule(asDomain("atlassian.net"), undefined, rules)
+          ?.groupName,
+      ).toBe("Jira");
+      expect(
+        service.findRule(asDomain("atlassian.com"), undefined, rules),
+      ).toBeUndefined();
+    });
+
+    it("prefers the most specific rule", () => {
+      expect(
+        service.findRule(asDomain("acme.eu.atlassian.net"), undefined, rules)
+          ?.groupName,
+      ).toBe("EU");
+      expect(
+        service.findRule(asDomain("status.atlassian.net"), undefined, rules)
+          ?.domain,
+      ).toBe("status.atlassian.net");
+    });
+
+    it("groups tenant subdomains under the wildcard rule's group name", () => {
+      const tabs = [
+        mkTab(1, "https://acme.atlassian.net/browse/A-1"),
+        mkTab(2, "https://globex.atlassian.net/browse/B-2", { index: 1 }),
+      ];
+      const cache = new Map(tabs.map((t) => [asTabId(t.id)!, t]));
+      const states = service.buildGroupStates(
+        service.buildGroupMap(tabs, rules),
+        cache,
+      );
+      expect(states).toHaveLength(1);
+      expect(states[0].displayName).toBe("Jira");
+      expect(states[0].tabIds).toEqual([1, 2]);
+    });
+
+    it("applies wildcard autoDelete rules during cleanup", () => {
+      const tabs = [
+        mkTab(1, "https://ads.tracker.com/x"),
+        mkTab(2, "https://tracker.com/y", { index: 1 }),
+        mkTab(3, "https://keep.com", { index: 2 }),
+      ];
+      const ids = service.getCleanupTabIds(tabs, {
+        "*.tracker.com": { domain: "*.tracker.com", autoDelete: true },
+      });
+      expect([...ids]).toEqual([1, 2]);
+    });
+  });
+
+  describe("findRule() path patterns", () => {
+    const rules: RulesByDomain = {
+      "google.com": { domain: "google.com", groupName: "Google" },
+      "google.com/search": { domain: "google.com/search", autoDelete: true },
+      "google.com/maps": { domain: "google.com/maps", groupName: "Maps" },
+      "google.com/maps/place": {
+        domain: "google.com/maps/place",
+        groupName: "Places",
+      },
+      "docs.google.com/spreadsheets/*": {
+        domain: "docs.google.com/spreadsheets/*",
+        groupName: "Sheets",
+      },
+    };
+    const find = (url: string) =>
+      service.findRule(service.getDomain(url), url, rules)?.domain;
+
+    it("matches the path prefix on segment boundaries", () => {
+      expect(find("https://google.com/search?q=x")).toBe("google.com/search");
+      expect(find("https://google.com/searchlight")).toBe("google.com");
+      expect(find("https://google.com/")).toBe("google.com");
+    });
+
+    it("prefers the longest matching path", () => {
+      expect(find("https://google.com/maps/dir/a")).toBe("google.com/maps");
+      expect(find("https://google.com/maps/place/x")).toBe(
+        "google.com/maps/place",
+      );
+    });
+
+    it("supports glob patterns", () => {
+      expect(find("https://docs.google.com/spreadsheets/d/1")).toBe(
+        "docs.google.com/spreadsheets/*",
+      );
+      expect(find("https://docs.google.com/document/d/1")).toBeUndefined();
+    });
+
+    it("auto-deletes matching paths only and groups the rest", () => {
+      const tabs = [
+        mkTab(1, "https://google.com/search?q=a"),
+        mkTab(2, "https://google.com/maps/a", { index: 1 }),
+        mkTab(3, "https://google.com/maps/b", { index: 2 }),
+      ];
+      expect([...service.getCleanupTabIds(tabs, rules)]).toEqual([1]);
+      expect(
+        service.getGroupKey(asDomain("google.com"), tabs[1].url, rules).title,
+      ).toBe("Maps");
+    });
+  });
+
+  describe("URL canonicalization for deduplication", () => {
+    const all = {
+      stripTrackingParams: true,
+      ignoreFragment: true,
+      ignoreTrailingSlash: true,
+      foldScheme: true,
+      foldWww: true,
+    };
+
+    it("folds tracking params, fragments, trailing slashes, scheme and www", () => {
+      expect(
+        canonicalizeUrl(
+          "http://www.example.com/docs/?utm_source=x&id=7&fbclid=y#intro",
+          all,
+        ),
+      ).toBe("https://example.com/docs?id=7");
+    });
+
+    it("leaves the URL untouched when every step is disabled", () => {
+      expect(canonicalizeUrl("http://www.example.com/a/#b", {})).toBe(
+        "http://www.example.com/a/#b",
+      );
+      expect(canonicalizeUrl("chrome://newtab/", all)).toBe("chrome://newtab/");
+    });
+
+    it("drops per-rule ignored query params", () => {
+      expect(
+        canonicalizeUrl("https://shop.com/item?id=1&sort=asc", {}, ["sort"]),
+      ).toBe("https://shop.com/item?id=1");
+    });
+
+    it("dedups canonical duplicates and applies rule ignored params", () => {
+      const rules: RulesByDomain = {
+        "shop.com": { domain: "shop.com", ignoredQueryParams: ["sort"] },
+      };
+      const tabs = [
+        mkTab(1, "https://example.com/a"),
+        mkTab(2, "http://www.example.com/a/?utm_medium=mail", { index: 1 }),
+        mkTab(3, "https://shop.com/item?id=1&sort=asc", { index: 2 }),
+        mkTab(4, "https://shop.com/item?sort=desc&id=1", { index: 3 }),
+        mkTab(5, "https://shop.com/item?id=2", { index: 4 }),
+      ];
+      const ids = service.getCleanupTabIds(tabs, rules, {
+        byWindow: false,
+        urlNormalization: all,
+      });
+      expect([...ids]).toEqual([2, 4]);
+      expect(service.getCleanupTabIds(tabs, {}).size).toBe(0);
+    });
+  });
+
+  describe("dedup exemptions", () => {
+    it("skips rules with skipDedup and global exempt patterns", () => {
+      const rules: RulesByDomain = {
+        "mail.google.com": { domain: "mail.google.com", skipDedup: true },
+      };
+      const tabs = [
+        mkTab(1, "https://mail.google.com/mail"),
+        mkTab(2, "https://mail.google.com/mail", { index: 1 }),
+        mkTab(3, "https://acme.grafana.net/d/abc", { index: 2 }),
+        mkTab(4, "https://acme.grafana.net/d/abc", { index: 3 }),
+        mkTab(5, "https://acme.grafana.net/login", { index: 4 }),
+        mkTab(6, "https://acme.grafana.net/login", { index: 5 }),
+      ];
+      const ids = service.getCleanupTabIds(tabs, rules, {
+        byWindow: false,
+        dedupExemptPatterns: ["*.grafana.net/d/*"],
+      });
+      expect([...ids]).toEqual([6]);
+    });
+  });
+
+  describe("excluded tabs and protected groups", () => {
+    const rules: RulesByDomain = {
+      "github.com/org/repo": { domain: "github.com/org/repo", exclude: true },
+    };
+
+    it("never closes excluded tabs", () => {
+      const tabs = [
+        mkTab(1, "https://github.com/org/repo"),
+        mkTab(2, "https://github.com/org/repo", { index: 1 }),
+      ];
+      expect(service.getCleanupTabIds(tabs, rules).size).toBe(0);
+    });
+
+    it("keeps excluded tabs out of domain groups", () => {
+      const tabs = [
+        mkTab(1, "https://github.com/org/repo"),
+        mkTab(2, "https://github.com/other", { index: 1 }),
+        mkTab(3, "https://github.com/third", { index: 2 }),
+      ];
+      const groupMap = service.buildGroupMap(tabs, rules);
+      const domainGroup = [...groupMap.values()].find((e) => e.tabs.length > 1);
+      expect(domainGroup?.tabs.map((t) => t.id)).toEqual([2, 3]);
+    });
+
+    it("treats groups with a protected title as manual", () => {
+      const tabs = [
+        mkTab(1, "https://a.com/1", { groupId: 9 }),
+        mkTab(2, "https://a.com/2", { groupId: 9 }),
+      ];
+      const groups = new Map([
+        [9, { id: 9, title: "a.com" } as chrome.tabGroups.TabGroup],
+      ]);
+
+      expect(
+        service.identifyProtectedTabs(tabs, groups, {}).managedGroupIds.has(9),
+      ).toBe(true);
+      const { protectedMeta, managedGroupIds } = service.identifyProtectedTabs(
+        tabs,
+        groups,
+        {},
+        ["a.com"],
+      );
+      expect(managedGroupIds.has(9)).toBe(false);
+      expect(protectedMeta.size).toBe(2);
+    });
+
+    it("takes ownership from the managed group registry over titles", () => {
+      const tabs = [
+        mkTab(1, "https://github.com/1", { groupId: 7 }), // User named it "github.com"
+        mkTab(2, "https://a.com/1", { groupId: 8 }), // Ours, renamed by the user
+      ];
+      const groups = new Map([
+        [7, { id: 7, title: "github.com" } as chrome.tabGroups.TabGroup],
+        [8, { id: 8, title: "Reading" } as chrome.tabGroups.TabGroup],
+      ]);
+
+      const { protectedMeta, managedGroupIds } = service.identifyProtectedTabs(
+        tabs,
+        groups,
+        {},
+        [],
+        new Set([8]),
+      );
+      expect([...managedGroupIds.keys()]).toEqual([8]);
+      expect(protectedMeta.get(asTabId(1)!)?.originalGroupId).toBe(7);
+    });
+  });
+
+  describe("auto mode helpers", () => {
+    it("getDuplicateTabIds only looks at the tab's duplicate set", () => {
+      const tabs = [
+        mkTab(1, "https://a.com/x"),
+        mkTab(2, "https://a.com/x", { index: 1 }),
+        mkTab(3, "https://b.com/y", { index: 2 }),
+        mkTab(4, "https://b.com/y", { index: 3 }),
+      ];
+      expect([...service.getDuplicateTabIds(tabs[1], tabs, {})]).toEqual([2]);
+    });
+
+    it("limitMembershipPlan keeps only the changed tabs' moves", () => {
+      const tabs = [
+        mkTab(1, "https://a.com/1", { groupId: 5 }),
+        mkTab(2, "https://a.com/2", { index: 1 }),
+        mkTab(3, "https://b.com/1", { index: 2 }),
+        mkTab(4, "https://b.com/2", { index: 3 }),
+        mkTab(5, "https://c.com/1", { index: 4, groupId: 6 }),
+      ];
+      const plan = service.limitMembershipPlan(
+        {
+          toUngroup: [asTabId(5)!],
+          toGroup: [
+            {
+              tabIds: [asTabId(1)!, asTabId(2)!],
+              groupId: asGroupId(5),
+              title: "a.com",
+              collapsed: false,
+            },
+            {
+              tabIds: [asTabId(3)!, asTabId(4)!],
+              groupId: null,
+              title: "b.com",
+              collapsed: false,
+            },
+          ],
+          targetWindowId: asWindowId(1),
+        },
+        new Set([asTabId(2)!]),
+        tabs,
+      );
+      expect(plan.toUngroup).toEqual([]);
+      expect(plan.toGroup).toEqual([
+        expect.objectContaining({ groupId: 5, tabIds: [2] }),
+      ]);
+    });
+  });
+
+  describe("dedup keep policy", () => {
+    const dupes = () => {
+      const tabs = [
+        mkTab(1, "https://a.com", { windowId: 1, index: 0 }),
+        mkTab(2, "https://a.com", { windowId: 1, index: 1, pinned: true }),
+        mkTab(3, "https://a.com", { windowId: 2, index: 0 }),
+      ];
+      tabs[0].lastAccessed = 100;
+      tabs[1].lastAccessed = 50;
+      tabs[2].lastAccessed = 300;
+      return tabs;
+    };
+    const keptWith = (
+      dedupKeepPolicy: DedupKeepPreference[],
+      context: CleanupContext = {},
+    ) => {
+      const tabs = dupes();
+      const removed = service.getCleanupTabIds(
+        tabs,
+        {},
+        { byWindow: false, dedupKeepPolicy },
+        context,
+      );
+      return tabs.map((t) => t.id).filter((id) => !removed.has(id as TabId));
+    };
+
+    it("keeps the first tab when no policy is set", () => {
+      expect(keptWith([])).toEqual([1]);
+    });
+
+    it("applies preferences in order", () => {
+      expect(keptWith(["pinned"])).toEqual([2]);
+      expect(keptWith(["recent"])).toEqual([3]);
+      expect(keptWith(["oldest", "recent"])).toEqual([1]);
+      expect(
+        keptWith(["activeWindow", "recent"], { activeWindowId: asWindowId(2) }),
+      ).toEqual([3]);
+      expect(
+        keptWith(["protectedGroup", "pinned"], {
+          protectedTabIds: new Set([asTabId(3)!]),
+        }),
+      ).toEqual([3]);
+    });
+  });
+
+  describe("conditional auto-delete", () => {
+    const now = 60 * 60_000;
+    const tabs = () => {
+      const t = [
+        mkTab(1, "https://news.com/a", { index: 0 }),
+        mkTab(2, "https://news.com/b", { index: 1 }),
+        mkTab(3, "https://news.com/c", { index: 2 }),
+        mkTab(4, "https://news.com/d", { index: 3 }),
+      ];
+      t[0].lastAccessed = now - 45 * 60_000;
+      t[1].lastAccessed = now - 5_000;
+      t[2].lastAccessed = now - 45 * 60_000;
+      t[2].active = true;
+      t[3].lastAccessed = now - 45 * 60_000;
+      t[3].audible = true;
+      return t;
+    };
+    const removedWith = (autoDelete: RulesByDomain[string]["autoDelete"]) =>
+      [
+        ...service.getCleanupTabIds(
+          tabs(),
+          { "news.com": { domain: "news.com", autoDelete } },
+          undefined,
+          { now },
+        ),
+      ].sort();
+
+    it("closes every matching tab when unconditional", () => {
+      expect(removedWith(true)).toEqual([1, 2, 3, 4]);
+    });
+
+    it("closes only tabs idle for the configured minutes", () => {
+      expect(removedWith({ idleMinutes: 30 })).toEqual([1, 4]);
+    });
+
+    it("spares active and audible tabs", () => {
+      expect(removedWith({ skipActiveOrAudible: true })).toEqual([1, 2]);
+      expect(
+        removedWith({ idleMinutes: 30, skipActiveOrAudible: true }),
+      ).toEqual([1]);
+    });
+
+    it("never treats tabs without lastAccessed as idle", () => {
+      const tab = mkTab(1, "https://news.com/a");
+      const ids = service.getCleanupTabIds(
+        [tab],
+        { "news.com": { domain: "news.com", autoDelete: { idleMinutes: 1 } } },
+        undefined,
+        { now },
+      );
+      expect(ids.size).toBe(0);
+    });
+  });
+
+  describe("getDiscardTabIds", () => {
+    it("skips active, audible and already discarded tabs", () => {
+      const tabs = [
+        mkTab(1, "https://docs.com/a", { index: 0 }),
+        mkTab(2, "https://docs.com/b", { index: 1 }),
+        mkTab(3, "https://docs.com/c", { index: 2 }),
+        mkTab(4, "https://docs.com/d", { index: 3 }),
+        mkTab(5, "https://other.com", { index: 4 }),
+      ];
+      tabs[1].active = true;
+      tabs[2].audible = true;
+      tabs[3].discarded = true;
+      const ids = service.getDiscardTabIds(tabs, {
+        "docs.com": { domain: "docs.com", discard: true },
+      });
+      expect([...ids]).toEqual([1]);
+    });
+
+    it("limits discarding to collapsed groups or idle tabs", () => {
+      const now = 60 * 60_000;
+      const tabs = [
+        mkTab(1, "https://docs.com/a", { groupId: 7, index: 0 }),
+        mkTab(2, "https://docs.com/b", { groupId: 8, index: 1 }),
+        mkTab(3, "https://docs.com/c", { index: 2 }),
+      ];
+      tabs[0].lastAccessed = now - 5_000;
+      tabs[1].lastAccessed = now - 5_000;
+      tabs[2].lastAccessed = now - 45 * 60_000;
+      const context = { now, collapsedGroupIds: new Set([asGroupId(7)]) };
+
+      const collapsed = service.getDiscardTabIds(
+        tabs,
+        {
+          "docs.com": {
+            domain: "docs.com",
+            discard: { onlyCollapsedGroups: true },
+          },
+        },
+        context,
+      );
+      expect([...collapsed]).toEqual([1]);
+
+      const idle = service.getDiscardTabIds(
+        tabs,
+        { "docs.com": { domain: "docs.com", discard: { idleMinutes: 30 } } },
+        context,
+      );
+      expect([...idle]).toEqual([3]);
+    });
   });
 
   describe("isInternalTitle", () => {
@@ -398,6 +893,32 @@ describe("TabGroupingService", () => {
     });
   });
 
+  describe("alignOrderUnits", () => {
+    it("keeps live group membership while following the desired order", () => {
+      const tabs = [
+        mkTab(1, "https://a.com/1", { groupId: 7, index: 0 }),
+        mkTab(2, "https://b.com/1", { index: 1 }),
+        mkTab(3, "https://a.com/2", { index: 2 }),
+      ];
+      // Desired layout groups 1 and 3 together, but only 1 is grouped live
+      const desired: OrderUnit[] = [
+        { kind: "solo", tabId: asTabId(2)!, targetIndex: 0 },
+        {
+          kind: "group",
+          groupId: asGroupId(7),
+          tabIds: [asTabId(3)!, asTabId(1)!],
+          targetIndex: 1,
+        },
+      ];
+
+      expect(service.alignOrderUnits(desired, tabs)).toEqual([
+        { kind: "solo", tabId: 2, targetIndex: 0 },
+        { kind: "solo", tabId: 3, targetIndex: 1 },
+        { kind: "group", groupId: 7, tabIds: [1], targetIndex: 2 },
+      ]);
+    });
+  });
+
   describe("QA Reproductions", () => {
     it("should PRESERVE the groupId for pinned tabs if they belong to an external (protected) group", () => {
       const pinnedTab = mkTab(1, "https://google.com", {
@@ -548,6 +1069,412 @@ describe("TabGroupingService", () => {
     });
   });
 
+  describe("Sort Strategies", () => {
+    const layout = (
+      tabs: Tab[],
+      sortStrategy: GroupingConfig["sortStrategy"],
+    ) => {
+      const cache = new Map(tabs.map((t) => [asTabId(t.id)!, t]));
+      const groupMap = service.buildGroupMap(tabs, {});
+      const states = service.buildGroupStates(groupMap, cache, new Map(), {
+        sortStrategy,
+      });
+      return service.calculateRepositionNeeds(
+        states,
+        cache,
+        undefined,
+        new Map(),
+        { sortStrategy },
+      );
+    };
+
+    it("orders groups by size and falls back to the default elsewhere", () => {
+      const tabs = [
+        mkTab(1, "https://a.com/1", { index: 0 }),
+        mkTab(2, "https://a.com/2", { index: 1 }),
+        mkTab(3, "https://b.com/1", { index: 2 }),
+        mkTab(4, "https://b.com/2", { index: 3 }),
+        mkTab(5, "https://b.com/3", { index: 4 }),
+        mkTab(6, "https://z.com", { index: 5 }),
+        mkTab(7, "https://y.com", { index: 6 }),
+      ];
+
+      const result = layout(tabs, { managed: "size" });
+
+      expect(result.map((s) => s.displayName)).toEqual([
+        "b.com",
+        "a.com",
+        "y.com",
+        "z.com",
+      ]);
+    });
+
+    it("sorts tabs inside a group by last access and keeps solos in place", () => {
+      const tabs = [
+        mkTab(1, "https://z.com", { index: 0 }),
+        mkTab(2, "https://a.com/old", { index: 1 }),
+        mkTab(3, "https://y.com", { index: 2 }),
+        mkTab(4, "https://a.com/new", { index: 3 }),
+      ];
+      tabs[1].lastAccessed = 100;
+      tabs[3].lastAccessed = 200;
+
+      const result = layout(tabs, {
+        default: "lastAccessed",
+        solo: "preserve",
+      });
+
+      expect(result[0].tabIds).toEqual([4, 2]);
+      expect(result.slice(1).map((s) => s.displayName)).toEqual([
+        "z.com",
+        "y.com",
+      ]);
+    });
+
+    it("verifyState checks the order within a category", () => {
+      const tabs = [
+        mkTab(1, "https://a.com", { index: 0 }),
+        mkTab(2, "https://b.com/1", { index: 1 }),
+        mkTab(3, "https://b.com/2", { index: 2 }),
+      ].map((t) => ({ ...t, lastAccessed: t.id }));
+      const verify = (sortStrategy: GroupingConfig["sortStrategy"]) =>
+        service.verifyState(
+          tabs,
+          new Map(),
+          {},
+          { byWindow: false, sortStrategy },
+          asWindowId(1),
+          new WindowManagementService(),
+        );
+
+      expect(verify({ solo: "title" })).toBe(true);
+      expect(verify({ solo: "lastAccessed" })).toBe(false);
+      expect(verify({ solo: "preserve" })).toBe(true);
+    });
+  });
+
+  describe("Category Order", () => {
+    it("lays out and verifies a custom category order", () => {
+      const tabs = [
+        mkTab(1, "chrome://settings", { index: 0 }),
+        mkTab(2, "https://a.com/1", { index: 1, groupId: 101 }),
+        mkTab(3, "https://a.com/2", { index: 2, groupId: 101 }),
+        mkTab(4, "https://mine.com/1", { index: 3, groupId: 202 }),
+        mkTab(5, "https://mine.com/2", { index: 4, groupId: 202 }),
+        mkTab(6, "https://solo.com", { index: 5 }),
+      ];
+      const groups = new Map([
+        [101, { id: 101, title: "a.com" } as chrome.tabGroups.TabGroup],
+        [202, { id: 202, title: "Work" } as chrome.tabGroups.TabGroup],
+      ]);
+      const categoryOrder = ["manual", "managed", "solo", "internal"] as const;
+      const config = {
+        byWindow: false,
+        categoryOrder: [...categoryOrder],
+      };
+
+      const { protectedMeta, managedGroupIds } = service.identifyProtectedTabs(
+        tabs,
+        groups,
+        {},
+      );
+      const cache = new Map(tabs.map((t) => [asTabId(t.id)!, t]));
+      const groupMap = service.buildGroupMap(tabs, {}, groups, protectedMeta);
+      const states = service.buildGroupStates(groupMap, cache, managedGroupIds);
+      const repositioned = service.calculateRepositionNeeds(
+        states,
+        cache,
+        undefined,
+        managedGroupIds,
+        config,
+      );
+
+      expect(repositioned.map((s) => s.displayName)).toEqual([
+        "Work",
+        "a.com",
+        "solo.com",
+        "settings",
+      ]);
+      const verify = (t: Tab[]) =>
+        service.verifyState(
+          t,
+          groups,
+          {},
+          config,
+          asWindowId(1),
+          new WindowManagementService(),
+        );
+      expect(verify(tabs)).toBe(false);
+
+      const laidOut = repositioned
+        .flatMap((s) => s.tabIds)
+        .map((id, index) => ({ ...cache.get(id)!, index }));
+      expect(verify(laidOut)).toBe(true);
+    });
+  });
+
+  describe("Rule Priority", () => {
+    it("puts prioritized rule groups first, ahead of the strategy", () => {
+      const rules: RulesByDomain = {
+        "github.com": { domain: "github.com", priority: 2 },
+        "jira.com": { domain: "jira.com", groupName: "Jira", priority: 1 },
+      };
+      const tabs = [
+        mkTab(1, "https://a.com/1"),
+        mkTab(2, "https://a.com/2"),
+        mkTab(3, "https://github.com/1"),
+        mkTab(4, "https://github.com/2"),
+        mkTab(5, "https://jira.com/1"),
+        mkTab(6, "https://jira.com/2"),
+      ];
+      const cache = new Map(tabs.map((t) => [asTabId(t.id)!, t]));
+      const states = service.buildGroupStates(
+        service.buildGroupMap(tabs, rules),
+        cache,
+      );
+
+      const repositioned = service.calculateRepositionNeeds(
+        states,
+        cache,
+        undefined,
+        new Map(),
+        { sortStrategy: { default: "size" } },
+      );
+
+      expect(repositioned.map((s) => s.displayName)).toEqual([
+        "Jira",
+        "github.com",
+        "a.com",
+      ]);
+    });
+  });
+
+  describe("Stable Layout", () => {
+    const tabs = [
+      mkTab(1, "https://zeta.com", { index: 0 }),
+      mkTab(2, "https://b.com/1", { index: 1 }),
+      mkTab(3, "https://a.com/1", { index: 2 }),
+      mkTab(4, "https://b.com/2", { index: 3 }),
+      mkTab(5, "https://a.com/2", { index: 4 }),
+    ];
+    const cache = new Map(tabs.map((t) => [asTabId(t.id)!, t]));
+    const layout = (ordering: GroupingConfig) => {
+      const states = service.buildGroupStates(
+        service.buildGroupMap(tabs, {}),
+        cache,
+        new Map(),
+        ordering,
+      );
+      return service.calculateRepositionNeeds(
+        states,
+        cache,
+        undefined,
+        new Map(),
+        ordering,
+      );
+    };
+
+    it("forms groups at their left-most member and keeps the rest in place", () => {
+      const stable = layout({ byWindow: false, layoutMode: "stable" });
+
+      expect(stable.map((s) => s.displayName)).toEqual([
+        "zeta.com",
+        "b.com",
+        "a.com",
+      ]);
+      const moves = (states: GroupState[]) =>
+        service.buildOrderPlan(
+          service.mapToOrderUnits(states),
+          service.getLiveUnits(tabs),
+        ).toMove.length;
+      expect(moves(stable)).toBeLessThan(moves(layout({ byWindow: false })));
+    });
+
+    it("verifyState only checks cohesion", () => {
+      const laidOut = layout({ byWindow: false, layoutMode: "stable" })
+        .flatMap((s) => s.tabIds)
+        .map((id, index) => ({ ...cache.get(id)!, index }));
+      const verify = (config: GroupingConfig) =>
+        service.verifyState(
+          laidOut,
+          new Map(),
+          {},
+          config,
+          asWindowId(1),
+          new WindowManagementService(),
+        );
+
+      expect(verify({ byWindow: false, layoutMode: "stable" })).toBe(true);
+      expect(verify({ byWindow: false })).toBe(false);
+    });
+  });
+
+  describe("Internal Page Policy", () => {
+    const layout = (tabs: Tab[], ordering: GroupingConfig) => {
+      const cache = new Map(tabs.map((t) => [asTabId(t.id)!, t]));
+      const states = service.buildGroupStates(
+        service.buildGroupMap(
+          tabs,
+          {},
+          new Map(),
+          new Map(),
+          new Set(),
+          ordering.internalPagePolicy ?? "front",
+        ),
+        cache,
+        new Map(),
+        ordering,
+      );
+      return service.calculateRepositionNeeds(
+        states,
+        cache,
+        undefined,
+        new Map(),
+        ordering,
+      );
+    };
+    const tabs = [
+      mkTab(1, "https://b.com", { index: 0 }),
+      mkTab(2, "chrome://settings", { index: 1 }),
+      mkTab(3, "https://a.com", { index: 2 }),
+    ];
+
+    it("moves internal pages to the end", () => {
+      const result = layout(tabs, {
+        byWindow: false,
+        internalPagePolicy: "end",
+      });
+
+      expect(result.map((s) => s.displayName)).toEqual([
+        "a.com",
+        "b.com",
+        "settings",
+      ]);
+      expect(
+        service.leadsWithInternalPages({ internalPagePolicy: "end" }),
+      ).toBe(false);
+    });
+
+    it("leaves internal pages in their slot and verifies around them", () => {
+      const config = {
+        byWindow: false,
+        internalPagePolicy: "inPlace" as const,
+      };
+      const result = layout(tabs, config);
+
+      expect(result.map((s) => s.displayName)).toEqual([
+        "a.com",
+        "settings",
+        "b.com",
+      ]);
+      const laidOut = result
+        .flatMap((s) => s.tabIds)
+        .map((id, index) => ({ ...tabs.find((t) => t.id === id)!, index }));
+      expect(
+        service.verifyState(
+          laidOut,
+          new Map(),
+          {},
+          config,
+          asWindowId(1),
+          new WindowManagementService(),
+        ),
+      ).toBe(true);
+    });
+
+    it("verifies its own layout when a page has no host", () => {
+      const config = { byWindow: false };
+      const blankTabs = [
+        mkTab(1, "chrome://newtab/", { index: 0 }),
+        mkTab(2, "https://a.com", { index: 1 }),
+        mkTab(3, "about:blank", { index: 2 }),
+      ];
+      const laidOut = layout(blankTabs, config)
+        .flatMap((s) => s.tabIds)
+        .map((id, index) => ({
+          ...blankTabs.find((t) => t.id === id)!,
+          index,
+        }));
+
+      expect(
+        service.verifyState(
+          laidOut,
+          new Map(),
+          {},
+          config,
+          asWindowId(1),
+          new WindowManagementService(),
+        ),
+      ).toBe(true);
+    });
+
+    it("puts every internal page in one Browser group", () => {
+      const groupMap = service.buildGroupMap(
+        [
+          ...tabs,
+          mkTab(4, "about:blank", { index: 3 }),
+          mkTab(5, "chrome://extensions", { index: 4, pinned: true }),
+        ],
+        {},
+        new Map(),
+        new Map(),
+        new Set(),
+        "group",
+      );
+
+      const browser = [...groupMap.values()].find(
+        (e) => e.displayName === INTERNAL_GROUP_TITLE,
+      );
+      expect(browser?.tabs.map((t) => t.id)).toEqual([2, 4]);
+    });
+  });
+
+  describe("Blank Tab Cleanup", () => {
+    const newTabs = [
+      mkTab(1, "chrome://newtab/", { windowId: 1 }),
+      { ...mkTab(2, "about:blank", { windowId: 1 }), active: true },
+      mkTab(3, "about:newtab", { windowId: 2 }),
+      mkTab(4, "https://a.com", { windowId: 1 }),
+      mkTab(5, "edge://newtab/", { windowId: 1, pinned: true }),
+    ];
+    const close = (config: GroupingConfig) =>
+      service.getSurplusBlankTabIds(newTabs, config);
+
+    it("keeps one new-tab page per window, picked by the keep policy", () => {
+      expect(
+        close({
+          byWindow: false,
+          blankTabCleanup: "keepOne",
+          dedupKeepPolicy: ["active"],
+        }),
+      ).toEqual(new Set([1]));
+      // Differing URLs are never duplicates of each other
+      expect(
+        service.getCleanupTabIds(newTabs, {}, { byWindow: false }),
+      ).toEqual(new Set());
+    });
+
+    it("keeps only the active new-tab page", () => {
+      expect(close({ byWindow: false, blankTabCleanup: "keepActive" })).toEqual(
+        new Set([1, 3]),
+      );
+    });
+
+    it("defaults to off unless the internal page policy asks for it", () => {
+      expect(close({ byWindow: false })).toEqual(new Set());
+      expect(
+        close({ byWindow: false, internalPagePolicy: "closeSurplusNewTabs" }),
+      ).toEqual(new Set([2]));
+      expect(
+        close({
+          byWindow: false,
+          internalPagePolicy: "closeSurplusNewTabs",
+          blankTabCleanup: "off",
+        }),
+      ).toEqual(new Set());
+    });
+  });
+
   describe("Property-Based Invariants", () => {
     it("Invariant: Groups ALWAYS precede single tabs in their respective sections", () => {
       fc.assert(
@@ -1,19 +1,31 @@
 import {
+  CleanupContext,
   ConsolidationPlan,
+  DedupKeepPreference,
   Domain,
+  GROUP_COLORS,
+  GroupColor,
   GroupId,
   GroupingConfig,
   GroupMap,
   GroupMapEntry,
   GroupState,
+  InternalPagePolicy,
   MembershipPlan,
   OrderPlan,
   OrderUnit,
+  OrderingConfig,
   ProtectedTabMeta,
   ProtectedTabMetaMap,
+  Rule,
   RulesByDomain,
+  SortStrategy,
+  TAB_CATEGORIES,
   Tab,
+  TabCategory,
+  TabCondition,
   TabId,
+  UrlNormalizationConfig,
   WindowId,
   asDomain,
   asGroupId,
@@ -34,6 +46,31 @@ export enum Category {
   SOLO = 3,
 }
 
+/** What sort strategies compare: a group (or solo tab) by name and tabs. */
+interface SortUnit {
+  readonly name: string;
+  readonly tabs: readonly Tab[];
+  readonly priority?: number | null;
+}
+
+/**
+ * Name a group or solo tab sorts by: its title, else its domain. Shared by the
+ * planner and `verifyState`, so a title-less page (`about:blank`) sorts alike.
+ */
+function sortUnitName(title: string, domain: string): string {
+  return title || domain || "other";
+}
+
+/** `Rule.priority` order: lower numbers lead, units without one follow. */
+function comparePriority(
+  a: number | null | undefined,
+  b: number | null | undefined,
+): number {
+  const pA = a ?? Infinity;
+  const pB = b ?? Infinity;
+  return pA === pB ? 0 : pA < pB ? -1 : 1;
+}
+
 export function isInternalTab(tab: Tab): boolean {
   if (!tab.url) return false;
   const internalProtocols = [
@@ -48,6 +85,141 @@ export function isInternalTab(tab: Tab): boolean {
   return internalProtocols.some((p) => tab.url!.startsWith(p));
 }
 
+/** Title of the shared group under the `group` internal page policy. */
+export const INTERNAL_GROUP_TITLE = "Browser";
+
+const NEW_TAB_URLS = [
+  "chrome://newtab",
+  "chrome://new-tab-page",
+  "edge://newtab",
+  "about:newtab",
+  "about:home",
+  "about:blank",
+];
+
+/** Empty new-tab (or blank) page, whatever the browser. */
+export function isNewTabPage(tab: Tab): boolean {
+  const url = (tab.pendingUrl || tab.url || "").toLowerCase();
+  return NEW_TAB_URLS.some(
+    (u) => url === u || url.startsWith(`${u}/`) || url.startsWith(`${u}#`),
+  );
+}
+
+function getPathname(url: string | undefined): string {
+  try {
+    return url ? new URL(url).pathname.toLowerCase() : "/";
+  } catch {
+    return "/";
+  }
+}
+
+/**
+ * Matches a rule path (`/search`, `/spreadsheets/*`) against a URL pathname.
+ * `*` matches any run of characters; a pattern without a trailing `*` matches
+ * the path itself and everything beneath it.
+ */
+function matchesPathPattern(pattern: string, path: string): boolean {
+  const source = pattern
+    .replace(/\/$/, "")
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  const beneath = pattern.endsWith("*") ? "" : "(?:/.*)?";
+  return new RegExp(`^${source}${beneath}$`).test(path);
+}
+
+/**
+ * Stable color for groups without an explicit rule color, so the same site
+ * always gets the same color when its group is re-created.
+ */
+export function hashGroupColor(name: string): GroupColor {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) >>> 0;
+  }
+  return GROUP_COLORS[hash % GROUP_COLORS.length];
+}
+
+// ============================================================================
+// URL CANONICALIZATION
+// ============================================================================
+
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_hsenc",
+  "_hsmi",
+  "mkt_tok",
+]);
+
+function isTrackingParam(name: string): boolean {
+  return name.startsWith("utm_") || TRACKING_PARAMS.has(name);
+}
+
+/**
+ * Normalizer pipeline steps, applied in declaration order for each enabled flag.
+ */
+const URL_NORMALIZERS: {
+  [K in keyof Required<UrlNormalizationConfig>]: (u: URL) => void;
+} = {
+  foldScheme: (u) => {
+    u.protocol = "https:";
+  },
+  foldWww: (u) => {
+    if (u.hostname.startsWith("www.")) u.hostname = u.hostname.slice(4);
+  },
+  ignoreFragment: (u) => {
+    u.hash = "";
+  },
+  ignoreTrailingSlash: (u) => {
+    if (u.pathname.length > 1) u.pathname = u.pathname.replace(/\/+$/, "");
+  },
+  stripTrackingParams: (u) => {
+    for (const name of [...u.searchParams.keys()]) {
+      if (isTrackingParam(name.toLowerCase())) u.searchParams.delete(name);
+    }
+  },
+};
+
+/**
+ * Canonical form of a web URL for duplicate detection. Non-http(s) URLs are returned
+ * unchanged. `ignoredParams` comes from the matching rule's `ignoredQueryParams`.
+ */
+export function canonicalizeUrl(
+  url: string,
+  options: UrlNormalizationConfig = {},
+  ignoredParams: readonly string[] = [],
+): string {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return url;
+  }
+  if (u.protocol !== "http:" && u.protocol !== "https:") return url;
+
+  for (const [flag, normalize] of Object.entries(URL_NORMALIZERS)) {
+    if (options[flag as keyof UrlNormalizationConfig]) normalize(u);
+  }
+
+  const ignored = new Set(ignoredParams.map((p) => p.toLowerCase()));
+  for (const name of [...u.searchParams.keys()]) {
+    if (ignored.has(name.toLowerCase())) u.searchParams.delete(name);
+  }
+  // Re-serialize so that equivalent queries compare equal regardless of encoding
+  u.search = u.searchParams.toString();
+
+  return u.toString();
+}
+
 export class TabGroupingService {
   private getCategory(
     unit: OrderUnit,
@@ -73,11 +245,14 @@ export class TabGroupingService {
     config: GroupingConfig,
     activeWindowId: WindowId,
     windowService: WindowManagementService,
+    managedGroups: ReadonlySet<number> | null = null,
   ): boolean {
     const { managedGroupIds } = this.identifyProtectedTabs(
       tabs,
       groupIdToGroup,
       rulesByDomain,
+      config.protectedGroupTitles ?? [],
+      managedGroups,
     );
     const tabCache = new Map<TabId, Tab>(tabs.map((t) => [asTabId(t.id)!, t]));
 
@@ -88,9 +263,10 @@ export class TabGroupingService {
     for (const windowTabs of windowMap.values()) {
       const units = this.getLiveUnits(windowTabs);
 
-      let lastCategory = -1;
+      let lastRank = -1;
       const seenGroups = new Set<number>();
       let lastGroupId = -1;
+      let previous: SortUnit | null = null;
 
       for (const unit of units) {
         // 1. Cohesion Check (No group interleaving)
@@ -102,10 +278,44 @@ export class TabGroupingService {
         }
         lastGroupId = unit.kind === "group" ? unit.groupId : -1;
 
-        // 2. Category Order Check (Internal -> Managed -> Manual -> Solo)
+        // The stable layout keeps the existing order, so only cohesion applies
+        if (config.layoutMode === "stable") continue;
+
+        // 2. Category Order Check (config.categoryOrder, Internal -> Managed -> Manual -> Solo by default)
         const category = this.getCategory(unit, tabCache, managedGroupIds);
-        if (category < lastCategory) return false;
-        lastCategory = category;
+        // Internal pages left in place may sit anywhere
+        if (
+          config.internalPagePolicy === "inPlace" &&
+          category === Category.INTERNAL
+        )
+          continue;
+        const rank = this.categoryRank(category, config);
+        if (rank < lastRank) return false;
+
+        // 3. Sort Strategy Check (within a category; pinned tabs keep their own order)
+        const strategy = this.strategyFor(config, category);
+        const current = this.toLiveSortUnit(
+          unit,
+          category,
+          tabCache,
+          groupIdToGroup,
+          rulesByDomain,
+        );
+        if (
+          previous &&
+          rank === lastRank &&
+          this.compareUnitsBy(previous, current, strategy) > 0
+        )
+          return false;
+        if (category === Category.MANAGED) {
+          const outOfOrder = current.tabs.some(
+            (t, i) =>
+              i > 0 && this.compareTabsBy(current.tabs[i - 1], t, strategy) > 0,
+          );
+          if (outOfOrder) return false;
+        }
+        previous = current.tabs[0]?.pinned ? null : current;
+        lastRank = rank;
       }
     }
     return true;
@@ -136,13 +346,57 @@ export class TabGroupingService {
     }
   }
 
+  /**
+   * Resolves the rule for a tab. Host candidates are tried from most to least specific:
+   * the exact host, then wildcard rules (`*.example.com`), which like Chrome match
+   * patterns also cover the bare domain. Within a host, the longest matching path
+   * pattern (`google.com/maps`, `docs.google.com/spreadsheets/*`) beats the host rule.
+   */
+  findRule(
+    domain: Domain,
+    url: string | undefined,
+    rulesByDomain: RulesByDomain,
+  ): Rule | undefined {
+    const path = getPathname(url);
+    const labels = domain.split(".");
+    const hosts = [
+      domain as string,
+      ...labels.map((_, i) => `*.${labels.slice(i).join(".")}`),
+    ];
+
+    for (const host of hosts) {
+      let best: Rule | undefined = rulesByDomain[host];
+      let bestLength = -1;
+      for (const [pattern, rule] of Object.entries(rulesByDomain)) {
+        if (!pattern.startsWith(`${host}/`)) continue;
+        const rulePath = pattern.slice(host.length);
+        if (
+          rulePath.length > bestLength &&
+          matchesPathPattern(rulePath, path)
+        ) {
+          best = rule;
+          bestLength = rulePath.length;
+        }
+      }
+      if (best) return best;
+    }
+    return undefined;
+  }
+
   getGroupKey(
     domain: Domain,
     url: string | undefined,
     rulesByDomain: RulesByDomain,
-  ): { key: string; title: string } {
-    const rule = rulesByDomain[domain];
+  ): {
+    key: string;
+    title: string;
+    color: GroupColor;
+    priority: number | null;
+  } {
+    const rule = this.findRule(domain, url, rulesByDomain);
+    const priority = rule?.priority ?? null;
     const base = rule?.groupName || domain;
+    const color = rule?.color || hashGroupColor(base.toLowerCase());
 
     if (typeof rule?.splitByPath === "number" && rule.splitByPath >= 1 && url) {
       try {
@@ -159,6 +413,8 @@ export class TabGroupingService {
           return {
             key: `${domain}::${pathKey}`,
             title: `${lastSeg} - ${rule.groupName || domain}`,
+            color,
+            priority,
           };
         }
       } catch {
@@ -166,7 +422,7 @@ export class TabGroupingService {
       }
     }
 
-    return { key: base, title: base };
+    return { key: base, title: base, color, priority };
   }
 
   /**
@@ -187,7 +443,7 @@ export class TabGroupingService {
     // 1. Early exit: Check for exact domain match or common prefix/suffix variants
     if (t === d || t === `www.${d}`) return true;
 
-    const rule = rulesByDomain[domain];
+    const rule = this.findRule(domain, url, rulesByDomain);
     const base = (rule?.groupName || domain).toLowerCase();
 
     // 2. Base name match (case-insensitive)
@@ -245,10 +501,47 @@ export class TabGroupingService {
     return tabsByGroup;
   }
 
+  private hasManagedTitle(
+    title: string,
+    gTabs: Tab[],
+    rulesByDomain: RulesByDomain,
+  ): boolean {
+    return (
+      gTabs.some((t) => {
+        const domain = this.getDomain(t.url);
+        const normalizedDomain = this.normalizeDomain(domain);
+        return this.isInternalTitle(
+          title,
+          normalizedDomain,
+          t.url,
+          rulesByDomain,
+        );
+      }) ||
+      gTabs.every(isInternalTab) ||
+      title.toLowerCase() === "other" ||
+      title.toLowerCase() === "extension"
+    );
+  }
+
+  /**
+   * True when a managed group's title no longer looks generated, i.e. the
+   * user renamed it. Clearing the title doesn't count: untitled groups are
+   * simply retitled by the next run.
+   */
+  isRenamedByUser(
+    title: string,
+    gTabs: Tab[],
+    rulesByDomain: RulesByDomain,
+  ): boolean {
+    return title !== "" && !this.hasManagedTitle(title, gTabs, rulesByDomain);
+  }
+
   identifyProtectedTabs(
     tabs: Tab[],
     groupIdToGroup: Map<number, chrome.tabGroups.TabGroup>,
     rulesByDomain: RulesByDomain,
+    protectedGroupTitles: readonly string[] = [],
+    managedGroups: ReadonlySet<number> | null = null,
   ): {
     protectedMeta: ProtectedTabMetaMap;
     managedGroupIds: Map<number, string>;
@@ -262,23 +555,17 @@ export class TabGroupingService {
       if (!g) continue;
 
       const title = g.title || "";
-      // Mandate: A group is "Managed" if it has a title that matches the domain-grouping logic
-      // for AT LEAST one of its member tabs. OR if all its members are internal tabs,
+      // Ownership comes from the registry of groups we created or adopted.
+      // Without one (first run after an upgrade, no storage.session), fall back to
+      // titles: a group is "Managed" if its title matches the domain-grouping logic
+      // for AT LEAST one of its member tabs, OR if all its members are internal tabs,
       // OR if the group title explicitly matches 'other' or 'extension'.
+      // Groups the user protected by title always count as manual.
       const isManaged =
-        gTabs.some((t) => {
-          const domain = this.getDomain(t.url);
-          const normalizedDomain = this.normalizeDomain(domain);
-          return this.isInternalTitle(
-            title,
-            normalizedDomain,
-            t.url,
-            rulesByDomain,
-          );
-        }) ||
-        gTabs.every(isInternalTab) ||
-        title.toLowerCase() === "other" ||
-        title.toLowerCase() === "extension";
+        !protectedGroupTitles.includes(title) &&
+        (managedGroups
+          ? managedGroups.has(gid)
+          : this.hasManagedTitle(title, gTabs, rulesByDomain));
 
       if (!isManaged) {
         for (const t of gTabs) {
@@ -299,6 +586,8 @@ export class TabGroupingService {
     rulesByDomain: RulesByDomain,
     groupIdToGroup?: Map<number, chrome.tabGroups.TabGroup>,
     protectedTabMeta: ProtectedTabMetaMap = new Map(),
+    exceptionTabIds: ReadonlySet<number> = new Set(),
+    internalPagePolicy: InternalPagePolicy = "front",
   ): GroupMap {
     const map = new Map<string, GroupMapEntry>();
     for (const tab of tabs) {
@@ -306,10 +595,13 @@ export class TabGroupingService {
       const domain = this.getDomain(tab.url);
 
       let isExternal = false;
+      let isolated = false;
       let groupKey: string = "";
       let displayName: string = "";
       let groupId: GroupId | null = null;
       let collapsed = false;
+      let color: GroupColor | undefined;
+      let priority: number | null = null;
 
       const meta = tabId ? protectedTabMeta.get(tabId) : undefined;
       if (meta) {
@@ -322,17 +614,47 @@ export class TabGroupingService {
         if (group) {
           collapsed = group.collapsed;
         }
+      } else if (
+        tabId &&
+        (exceptionTabIds.has(tabId) ||
+          this.findRule(domain, tab.url, rulesByDomain)?.exclude)
+      ) {
+        // Excluded tabs (and tabs the user dragged out of a managed group) get
+        // a key of their own, so they are never grouped
+        groupKey = `excluded::${tabId}`;
+        isolated = true;
+        displayName = domain;
+        color = hashGroupColor(domain);
+      } else if (
+        internalPagePolicy === "group" &&
+        !tab.pinned &&
+        isInternalTab(tab)
+      ) {
+        // Every internal page joins the one shared group
+        groupKey = "unpinned::internal";
+        displayName = INTERNAL_GROUP_TITLE;
+        color = "grey";
+        const group = isGrouped(tab)
+          ? groupIdToGroup?.get(tab.groupId!)
+          : undefined;
+        if (group?.title === INTERNAL_GROUP_TITLE) {
+          groupId = asGroupId(group.id);
+          collapsed = group.collapsed;
+        }
       } else if (tabId && isGrouped(tab) && groupIdToGroup) {
         const group = groupIdToGroup.get(tab.groupId!);
         const groupTitle = group?.title || "";
         if (this.isInternalTitle(groupTitle, domain, tab.url, rulesByDomain)) {
-          const { key, title } = this.getGroupKey(
-            domain,
-            tab.url,
-            rulesByDomain,
-          );
+          const {
+            key,
+            title,
+            color: groupColor,
+            priority: rulePriority,
+          } = this.getGroupKey(domain, tab.url, rulesByDomain);
           groupKey = `${tab.pinned ? "pinned" : "unpinned"}::${key}`;
           displayName = title;
+          color = groupColor;
+          priority = rulePriority;
 
           // Mandate: Only inherit groupId if the title specifically matches what we expect for this tab
           // This ensures that path-segment intruders are seen as needing to move to their OWN group
@@ -348,9 +670,16 @@ export class TabGroupingService {
       }
 
       if (!groupKey) {
-        const { key, title } = this.getGroupKey(domain, tab.url, rulesByDomain);
+        const {
+          key,
+          title,
+          color: groupColor,
+          priority: rulePriority,
+        } = this.getGroupKey(domain, tab.url, rulesByDomain);
         groupKey = `${tab.pinned ? "pinned" : "unpinned"}::${key}`;
         displayName = title;
+        color = groupColor;
+        priority = rulePriority;
       }
 
       const existing = map.get(groupKey);
@@ -364,22 +693,107 @@ export class TabGroupingService {
               isExternal: isExternal || existing.isExternal,
               groupId: groupId || existing.groupId,
               collapsed: collapsed || existing.collapsed,
+              color: existing.color,
+              priority: existing.priority ?? priority,
             }
           : {
               tabs: [tab],
               displayName,
               domains: new Set([domain]),
               isExternal,
+              isolated,
               groupId,
               collapsed,
+              color,
+              priority,
             },
       );
     }
     return map;
   }
 
-  getCleanupTabIds(tabs: Tab[], rulesByDomain: RulesByDomain): Set<TabId> {
-    const seen = new Set<string>();
+  /**
+   * Scores a duplicate against one keep preference; the higher score survives.
+   */
+  private keepScore(
+    tab: Tab,
+    preference: DedupKeepPreference,
+    context: CleanupContext,
+  ): number {
+    switch (preference) {
+      case "active":
+        return tab.active ? 1 : 0;
+      case "pinned":
+        return tab.pinned ? 1 : 0;
+      case "protectedGroup":
+        return context.protectedTabIds?.has(asTabId(tab.id)!) ? 1 : 0;
+      case "activeWindow":
+        return tab.windowId === context.activeWindowId ? 1 : 0;
+      case "recent":
+        return tab.lastAccessed ?? 0;
+      case "oldest":
+        return -(tab.id ?? 0);
+    }
+  }
+
+  private preferKeeping(
+    a: Tab,
+    b: Tab,
+    policy: readonly DedupKeepPreference[],
+    context: CleanupContext,
+  ): boolean {
+    for (const preference of policy) {
+      const diff =
+        this.keepScore(a, preference, context) -
+        this.keepScore(b, preference, context);
+      if (diff !== 0) return diff > 0;
+    }
+    return false; // Tie: the earlier tab in the list survives
+  }
+
+  /**
+   * Resolves a rule action setting (`autoDelete`, `discard`) for one tab.
+   * A tab without a `lastAccessed` timestamp is never considered idle.
+   */
+  private meetsCondition(
+    tab: Tab,
+    condition: boolean | TabCondition | null | undefined,
+    context: CleanupContext,
+    now: number,
+  ): boolean {
+    if (!condition) return false;
+    if (condition === true) return true;
+
+    if (condition.skipActiveOrAudible && (tab.active || tab.audible)) {
+      return false;
+    }
+    if (
+      condition.onlyCollapsedGroups &&
+      !context.collapsedGroupIds?.has(asGroupId(tab.groupId ?? -1))
+    ) {
+      return false;
+    }
+    if (condition.idleMinutes != null) {
+      // The active tab is being looked at, whatever its timestamp says
+      if (tab.active || tab.lastAccessed == null) return false;
+      if (now - tab.lastAccessed < condition.idleMinutes * 60_000) return false;
+    }
+    return true;
+  }
+
+  getCleanupTabIds(
+    tabs: Tab[],
+    rulesByDomain: RulesByDomain,
+    config?: GroupingConfig,
+    context: CleanupContext = {},
+  ): Set<TabId> {
+    const policy = config?.dedupKeepPolicy ?? [];
+    const now = context.now ?? Date.now();
+    const exemptions: RulesByDomain = {};
+    for (const pattern of config?.dedupExemptPatterns ?? []) {
+      exemptions[this.normalizeDomain(pattern)] = { domain: pattern };
+    }
+    const keepers = new Map<string, Tab>();
     const toRemove = new Set<TabId>();
     for (const tab of tabs) {
       if (!tab.id || !tab.url) continue;
@@ -387,22 +801,155 @@ export class TabGroupingService {
 
       // 1. Auto-delete check
       const domain = this.getDomain(tab.url);
-      const rule = rulesByDomain[domain];
-      if (rule?.autoDelete) {
+      const rule = this.findRule(domain, tab.url, rulesByDomain);
+      if (rule?.exclude) continue;
+      if (
+        !context.skipAutoDelete &&
+        this.meetsCondition(tab, rule?.autoDelete, context, now)
+      ) {
         toRemove.add(tid);
         continue;
       }
 
-      // 2. Duplicate check
-      if (seen.has(tab.url)) {
+      // 2. Duplicate check (on the canonical URL), unless exempted
+      if (
+        context.skipDedup ||
+        rule?.skipDedup ||
+        this.findRule(domain, tab.url, exemptions)
+      ) {
+        continue;
+      }
+      const key = this.dedupKey(tab.url, rule, config);
+      const kept = keepers.get(key);
+      if (!kept) {
+        keepers.set(key, tab);
+      } else if (this.preferKeeping(tab, kept, policy, context)) {
+        toRemove.add(asTabId(kept.id)!);
+        keepers.set(key, tab);
+      } else {
         toRemove.add(tid);
+      }
+    }
+    return toRemove;
+  }
+
+  private dedupKey(
+    url: string,
+    rule: Rule | undefined,
+    config: GroupingConfig | undefined,
+  ): string {
+    return canonicalizeUrl(
+      url,
+      config?.urlNormalization ?? undefined,
+      rule?.ignoredQueryParams ?? undefined,
+    );
+  }
+
+  /**
+   * Deduplication limited to the duplicates of `tab` (auto mode). The keep
+   * policy decides which copy survives, so `tab` itself may be closed.
+   */
+  getDuplicateTabIds(
+    tab: Tab,
+    tabs: Tab[],
+    rulesByDomain: RulesByDomain,
+    config?: GroupingConfig,
+    context: CleanupContext = {},
+  ): Set<TabId> {
+    if (!tab.url) return new Set();
+    const keyOf = (url: string) =>
+      this.dedupKey(
+        url,
+        this.findRule(this.getDomain(url), url, rulesByDomain),
+        config,
+      );
+    const key = keyOf(tab.url);
+    return this.getCleanupTabIds(
+      tabs.filter((t) => t.url && keyOf(t.url) === key),
+      rulesByDomain,
+      config,
+      { ...context, skipAutoDelete: true },
+    );
+  }
+
+  /**
+   * Surplus blank/new-tab pages per window under `blankTabCleanup`. Their URLs
+   * differ (`chrome://newtab/`, `about:blank`, ...), so dedup never pairs them.
+   * Pinned and protected tabs are kept and do not count as the survivor.
+   */
+  getSurplusBlankTabIds(
+    tabs: Tab[],
+    config?: GroupingConfig,
+    context: CleanupContext = {},
+  ): Set<TabId> {
+    const mode =
+      config?.blankTabCleanup ??
+      (config?.internalPagePolicy === "closeSurplusNewTabs"
+        ? "keepOne"
+        : "off");
+    const toRemove = new Set<TabId>();
+    if (mode === "off") return toRemove;
+
+    const policy = config?.dedupKeepPolicy ?? [];
+    const keepers = new Map<number, Tab>();
+    for (const tab of tabs) {
+      if (!tab.id || tab.pinned || !isNewTabPage(tab)) continue;
+      const tid = asTabId(tab.id)!;
+      if (context.protectedTabIds?.has(tid)) continue;
+
+      if (mode === "keepActive") {
+        if (!tab.active) toRemove.add(tid);
+        continue;
+      }
+      const kept = keepers.get(tab.windowId);
+      if (!kept) {
+        keepers.set(tab.windowId, tab);
+      } else if (this.preferKeeping(tab, kept, policy, context)) {
+        toRemove.add(asTabId(kept.id)!);
+        keepers.set(tab.windowId, tab);
       } else {
-        seen.add(tab.url);
+        toRemove.add(tid);
       }
     }
     return toRemove;
   }
 
+  /**
+   * Tabs to unload via `discard` rules. Active tabs (which cannot be discarded),
+   * audible tabs and tabs that are already discarded are skipped.
+   */
+  getDiscardTabIds(
+    tabs: Tab[],
+    rulesByDomain: RulesByDomain,
+    context: CleanupContext = {},
+  ): Set<TabId> {
+    const now = context.now ?? Date.now();
+    const toDiscard = new Set<TabId>();
+    for (const tab of tabs) {
+      if (!tab.id || !tab.url) continue;
+      if (tab.active || tab.audible || tab.discarded) continue;
+
+      const domain = this.getDomain(tab.url);
+      const rule = this.findRule(domain, tab.url, rulesByDomain);
+      if (rule?.exclude) continue;
+      if (this.meetsCondition(tab, rule?.discard, context, now)) {
+        toDiscard.add(asTabId(tab.id)!);
+      }
+    }
+    return toDiscard;
+  }
+
+  /** Tabs that are the only member of their group (`ungroupSingleTab`). */
+  getSingleTabGroupTabIds(tabs: Tab[]): TabId[] {
+    const groupCounts = new Map<number, number>();
+    for (const tab of tabs.filter(isGrouped)) {
+      groupCounts.set(tab.groupId, (groupCounts.get(tab.groupId) || 0) + 1);
+    }
+    return tabs
+      .filter((t) => t.id && isGrouped(t) && groupCounts.get(t.groupId) === 1)
+      .map((t) => asTabId(t.id)!);
+  }
+
   calculateInternalPageMoves(
     tabs: Tab[],
   ): { tabId: TabId; targetIndex: number }[] {
@@ -457,8 +1004,11 @@ export class TabGroupingService {
       displayName,
       domains,
       isExternal,
+      isolated,
       groupId: entryGroupId,
       collapsed,
+      color,
+      priority,
     } of groupMap.values()) {
       const valid = extractTabIds(tabs)
         .map((id) => tabCache.get(id))
@@ -473,13 +1023,18 @@ export class TabGroupingService {
       const domainsArray = Array.from(domains);
       const sourceDomain = (domainsArray[0] as string) || "other";
       rawStates.push({
-        displayName: isExternal ? displayName : displayName || sourceDomain,
+        displayName: isExternal
+          ? displayName
+          : sortUnitName(displayName, sourceDomain),
         sourceDomain,
         tabIds: extractTabIds(valid),
         groupId: entryGroupId || null,
         collapsed: collapsed || false,
         needsReposition: false,
         isExternal,
+        isolated,
+        color,
+        priority,
       });
     }
     return rawStates;
@@ -497,6 +1052,10 @@ export class TabGroupingService {
         merged.set(key, s);
         continue;
       }
+      if (s.isolated) {
+        merged.set(`isolated::${s.tabIds[0]}`, s);
+        continue;
+      }
 
       const isPinned = tabCache.get(s.tabIds[0])?.pinned
         ? "pinned"
@@ -521,6 +1080,7 @@ export class TabGroupingService {
     groupMap: GroupMap,
     tabCache: ReadonlyMap<TabId, Tab>,
     managedGroupIds: Map<number, string> = new Map(),
+    ordering: OrderingConfig = {},
   ): GroupState[] {
     const rawStates = this.mapRawStates(groupMap, tabCache);
     const initial = this.resolveGroupCollisions(rawStates, tabCache);
@@ -530,13 +1090,12 @@ export class TabGroupingService {
       if (s.isExternal) return s;
 
       const valid = s.tabIds.map((id) => tabCache.get(id)).filter(isDefined);
-      valid.sort((a, b) => {
-        const titleComp = (a.title || "").localeCompare(b.title || "");
-        if (titleComp !== 0) return titleComp;
-        const urlComp = (a.url || "").localeCompare(b.url || "");
-        if (urlComp !== 0) return urlComp;
-        return (a.id ?? 0) - (b.id ?? 0); // Stability fallback
-      });
+      const category =
+        valid[0] && isInternalTab(valid[0])
+          ? Category.INTERNAL
+          : Category.MANAGED;
+      const strategy = this.strategyFor(ordering, category);
+      valid.sort((a, b) => this.compareTabsBy(a, b, strategy));
 
       return {
         ...s,
@@ -642,30 +1201,24 @@ export class TabGroupingService {
     a: Tab,
     b: Tab,
     managedGroupIds: Map<number, string> = new Map(),
+    ordering: OrderingConfig = {},
   ): number {
     if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
 
-    const isInternalA = isInternalTab(a);
-    const isInternalB = isInternalTab(b);
-    if (isInternalA !== isInternalB) return isInternalA ? -1 : 1;
-
-    // Mandate: Internal pages are sorted alphabetically by host, regardless of grouping status
-    if (!isInternalA) {
-      const gidA = a.groupId ?? -1;
-      const gidB = b.groupId ?? -1;
-      const isGroupedA = gidA !== -1;
-      const isGroupedB = gidB !== -1;
-
-      // Grouped tabs come before ungrouped (Solo) tabs
-      if (isGroupedA !== isGroupedB) return isGroupedA ? -1 : 1;
-
-      if (isGroupedA && isGroupedB && gidA !== gidB) {
-        // Both are grouped, but in different groups. Check Managed vs Manual.
-        const isManagedA = managedGroupIds.has(gidA);
-        const isManagedB = managedGroupIds.has(gidB);
-        if (isManagedA !== isManagedB) return isManagedA ? -1 : 1;
-      }
-    }
+    // Mandate: Internal pages are sorted alphabetically by host, regardless of grouping status.
+    // Left in place, they get no precedence and sort with the tabs around them.
+    const categoryOf = (t: Tab): Category => {
+      if (isInternalTab(t) && ordering.internalPagePolicy !== "inPlace")
+        return Category.INTERNAL;
+      if (!isGrouped(t)) return Category.SOLO;
+      return managedGroupIds.has(t.groupId!)
+        ? Category.MANAGED
+        : Category.MANUAL;
+    };
+    const rankComp =
+      this.categoryRank(categoryOf(a), ordering) -
+      this.categoryRank(categoryOf(b), ordering);
+    if (rankComp !== 0) return rankComp;
 
     const domainA = this.getDomain(a.url);
     const domainB = this.getDomain(b.url);
@@ -674,18 +1227,173 @@ export class TabGroupingService {
     return (a.url || "").localeCompare(b.url || "");
   }
 
-  private getSortingStrategies(tabCache: ReadonlyMap<TabId, Tab>) {
-    const sortByTitle = (a: GroupState, b: GroupState) => {
-      // Sort groups by their displayName (group title), then by the URL of the first tab.
-      const nameComp = (a.displayName || "").localeCompare(b.displayName || "");
-      if (nameComp !== 0) return nameComp;
+  /** The configured tab strip order; the `end` internal page policy moves `internal` last. */
+  private categoryOrderOf(ordering: OrderingConfig): readonly TabCategory[] {
+    const order = ordering.categoryOrder ?? TAB_CATEGORIES;
+    return ordering.internalPagePolicy === "end"
+      ? [...order.filter((c) => c !== "internal"), "internal"]
+      : order;
+  }
 
-      const tA = tabCache.get(a.tabIds[0]);
-      const tB = tabCache.get(b.tabIds[0]);
-      return (tA?.url || "").localeCompare(tB?.url || "");
+  /** Position of `category` in the configured tab strip order. */
+  private categoryRank(category: Category, ordering: OrderingConfig): number {
+    return this.categoryOrderOf(ordering).indexOf(TAB_CATEGORIES[category]);
+  }
+
+  /**
+   * True when the sorted layout puts internal pages first, i.e. when moving
+   * them to the front of the window (`calculateInternalPageMoves`) helps.
+   */
+  public leadsWithInternalPages(ordering: OrderingConfig): boolean {
+    return (
+      ordering.layoutMode !== "stable" &&
+      ordering.internalPagePolicy !== "inPlace" &&
+      this.categoryOrderOf(ordering)[0] === "internal"
+    );
+  }
+
+  /**
+   * The configured strategy for `category`, falling back to `default`, then `title`.
+   * The stable layout always preserves the current order.
+   */
+  private strategyFor(
+    ordering: OrderingConfig,
+    category: Category,
+  ): SortStrategy {
+    if (ordering.layoutMode === "stable") return "preserve";
+    const { sortStrategy } = ordering;
+    return (
+      sortStrategy?.[TAB_CATEGORIES[category]] ??
+      sortStrategy?.default ??
+      "title"
+    );
+  }
+
+  private compareUrls(a: Tab | undefined, b: Tab | undefined): number {
+    const domainA = this.getDomain(a?.url);
+    const domainB = this.getDomain(b?.url);
+    if (domainA !== domainB) return domainA.localeCompare(domainB);
+    return (a?.url || "").localeCompare(b?.url || "");
+  }
+
+  /** Orders tabs within a group; `size` has no meaning for a tab and sorts by title. */
+  public compareTabsBy(a: Tab, b: Tab, strategy: SortStrategy): number {
+    let comp = 0;
+    switch (strategy) {
+      case "url":
+        comp = this.compareUrls(a, b);
+        break;
+      case "lastAccessed":
+        comp = (b.lastAccessed ?? 0) - (a.lastAccessed ?? 0);
+        break;
+      case "creation":
+        break;
+      case "preserve":
+        comp = a.windowId - b.windowId || a.index - b.index;
+        break;
+      default:
+        comp =
+          (a.title || "").localeCompare(b.title || "") ||
+          (a.url || "").localeCompare(b.url || "");
+    }
+    return comp || (a.id ?? 0) - (b.id ?? 0); // Stability fallback
+  }
+
+  /**
+   * Orders groups (and solo tabs) within a category: rule priority first, then the
+   * strategy; ties fall back to the name.
+   */
+  private compareUnitsBy(
+    a: SortUnit,
+    b: SortUnit,
+    strategy: SortStrategy,
+  ): number {
+    const priorityComp = comparePriority(a.priority, b.priority);
+    if (priorityComp !== 0) return priorityComp;
+
+    const tA = a.tabs[0];
+    const tB = b.tabs[0];
+    const lastUsed = (u: SortUnit) =>
+      Math.max(0, ...u.tabs.map((t) => t.lastAccessed ?? 0));
+    const firstId = (u: SortUnit) => Math.min(...u.tabs.map((t) => t.id ?? 0));
+    const position = (u: SortUnit) => Math.min(...u.tabs.map((t) => t.index));
+
+    let comp = 0;
+    switch (strategy) {
+      case "url":
+        comp = this.compareUrls(tA, tB);
+        break;
+      case "lastAccessed":
+        comp = lastUsed(b) - lastUsed(a);
+        break;
+      case "creation":
+        comp = firstId(a) - firstId(b);
+        break;
+      case "size":
+        comp = b.tabs.length - a.tabs.length;
+        break;
+      case "preserve":
+        comp =
+          (tA?.windowId ?? 0) - (tB?.windowId ?? 0) ||
+          position(a) - position(b);
+        break;
+    }
+    if (comp !== 0) return comp;
+
+    // Sort groups by their name (group title), then by the URL of the first tab.
+    const nameComp = a.name.localeCompare(b.name);
+    if (nameComp !== 0) return nameComp;
+    return (tA?.url || "").localeCompare(tB?.url || "");
+  }
+
+  private toLiveSortUnit(
+    unit: OrderUnit,
+    category: Category,
+    tabCache: ReadonlyMap<TabId, Tab>,
+    groupIdToGroup: Map<number, chrome.tabGroups.TabGroup>,
+    rulesByDomain: RulesByDomain,
+  ): SortUnit {
+    const ids = unit.kind === "group" ? unit.tabIds : [unit.tabId];
+    const tabs = ids.map((id) => tabCache.get(id)).filter(isDefined);
+    const domain = this.getDomain(tabs[0]?.url);
+    const { title, priority } = this.getGroupKey(
+      domain,
+      tabs[0]?.url,
+      rulesByDomain,
+    );
+    // Manual groups and excluded tabs are not ordered by their rule
+    const excluded = !!this.findRule(domain, tabs[0]?.url, rulesByDomain)
+      ?.exclude;
+    const ruled = category !== Category.MANUAL && !excluded;
+    return {
+      name:
+        unit.kind === "group"
+          ? (groupIdToGroup.get(unit.groupId)?.title ?? "")
+          : // Excluded tabs are named by their domain, as in buildGroupMap
+            sortUnitName(excluded ? "" : title, domain),
+      tabs,
+      priority: ruled ? priority : null,
+    };
+  }
+
+  private getSortingStrategies(tabCache: ReadonlyMap<TabId, Tab>) {
+    const sortByStrategy = (
+      a: GroupState,
+      b: GroupState,
+      strategy: SortStrategy,
+    ) => {
+      const toSortUnit = (s: GroupState): SortUnit => ({
+        name: s.displayName || "",
+        tabs: s.tabIds.map((id) => tabCache.get(id)).filter(isDefined),
+        priority: s.priority,
+      });
+      return this.compareUnitsBy(toSortUnit(a), toSortUnit(b), strategy);
     };
 
     const sortById = (a: GroupState, b: GroupState) => {
+      const priorityComp = comparePriority(a.priority, b.priority);
+      if (priorityComp !== 0) return priorityComp;
+
       const nameComp = (a.displayName || "").localeCompare(b.displayName || "");
       if (nameComp !== 0) return nameComp;
 
@@ -694,7 +1402,29 @@ export class TabGroupingService {
       return (tA?.id ?? 0) - (tB?.id ?? 0);
     };
 
-    return { sortByTitle, sortById };
+    const sortByPosition = (a: GroupState, b: GroupState) => {
+      const leftMost = (s: GroupState) =>
+        s.tabIds
+          .map((id) => tabCache.get(id))
+          .filter(isDefined)
+          .reduce<Tab | undefined>(
+            (min, t) =>
+              !min ||
+              t.windowId < min.windowId ||
+              (t.windowId === min.windowId && t.index < min.index)
+                ? t
+                : min,
+            undefined,
+          );
+      const tA = leftMost(a);
+      const tB = leftMost(b);
+      return (
+        (tA?.windowId ?? 0) - (tB?.windowId ?? 0) ||
+        (tA?.index ?? 0) - (tB?.index ?? 0)
+      );
+    };
+
+    return { sortByStrategy, sortById, sortByPosition };
   }
 
   calculateRepositionNeeds(
@@ -702,15 +1432,16 @@ export class TabGroupingService {
     tabCache: ReadonlyMap<TabId, Tab>,
     windowId?: WindowId,
     managedGroupIds: Map<number, string> = new Map(),
-    sortManualGroupTabs: boolean = false,
+    ordering: OrderingConfig = {},
   ): GroupState[] {
+    const { sortManualGroupTabs } = ordering;
     const allTabs = Array.from(tabCache.values());
 
     // Mandate: Stable and comprehensive sort for all candidate tabs
     allTabs.sort((a, b) => {
       if (a.windowId !== b.windowId)
         return (a.windowId || 0) - (b.windowId || 0);
-      return this.compareTabOrder(a, b, managedGroupIds);
+      return this.compareTabOrder(a, b, managedGroupIds, ordering);
     });
 
     const managed = new Set(groupStates.flatMap((s) => s.tabIds));
@@ -718,11 +1449,15 @@ export class TabGroupingService {
       (t) => t.pinned && !managed.has(asTabId(t.id)!),
     );
 
-    const { sortByTitle, sortById } = this.getSortingStrategies(tabCache);
+    const { sortByStrategy, sortById, sortByPosition } =
+      this.getSortingStrategies(tabCache);
+    // Stable layout: every unit keeps the slot of its left-most member
+    const stable = ordering.layoutMode === "stable";
 
     const managedPinned = groupStates
       .filter((s) => tabCache.get(s.tabIds[0])?.pinned)
       .sort((a, b) => {
+        if (stable) return sortByPosition(a, b);
         const isGroupA = a.isExternal || a.tabIds.length >= 2 ? 1 : 0;
         const isGroupB = b.isExternal || b.tabIds.length >= 2 ? 1 : 0;
         if (isGroupA !== isGroupB) return isGroupA ? -1 : 1;
@@ -730,30 +1465,51 @@ export class TabGroupingService {
         return sortById(a, b);
       });
 
-    const managedUnpinned = groupStates
-      .filter((s) => !tabCache.get(s.tabIds[0])?.pinned)
+    // Mandate: Internal Pages -> Managed Groups -> Manual Groups -> Single Tabs, unless
+    // categoryOrder says otherwise. Internal pages skip the Group vs Solo priority to
+    // maintain alphabetical order.
+    const categoryOf = (s: GroupState): Category => {
+      const t = tabCache.get(s.tabIds[0]);
+      if (t && isInternalTab(t)) return Category.INTERNAL;
+      if (s.tabIds.length < 2) return Category.SOLO;
+      return s.isExternal ? Category.MANUAL : Category.MANAGED;
+    };
+
+    const unpinned = groupStates.filter(
+      (s) => !tabCache.get(s.tabIds[0])?.pinned,
+    );
+    let managedUnpinned = unpinned
+      .filter(
+        (s) =>
+          ordering.internalPagePolicy !== "inPlace" ||
+          categoryOf(s) !== Category.INTERNAL,
+      )
       .sort((a, b) => {
-        const tA = tabCache.get(a.tabIds[0]);
-        const tB = tabCache.get(b.tabIds[0]);
-        const isInternalA = tA ? isInternalTab(tA) : false;
-        const isInternalB = tB ? isInternalTab(tB) : false;
-
-        // Mandate: Internal Pages -> Managed Groups -> Manual Groups -> Single Tabs
-        if (isInternalA !== isInternalB) return isInternalA ? -1 : 1;
-
-        // Mandate: For internal pages, we skip the Group vs Solo priority to maintain alphabetical order
-        if (!isInternalA) {
-          const isGroupA = a.tabIds.length >= 2 ? 1 : 0;
-          const isGroupB = b.tabIds.length >= 2 ? 1 : 0;
-          if (isGroupA !== isGroupB) return isGroupB - isGroupA;
-
-          // Managed (External=false) comes before Manual (External=true)
-          if (a.isExternal !== b.isExternal) return a.isExternal ? 1 : -1;
-        }
+        if (stable) return sortByPosition(a, b);
+
+        const category = categoryOf(a);
+        const rankComp =
+          this.categoryRank(category, ordering) -
+          this.categoryRank(categoryOf(b), ordering);
+        if (rankComp !== 0) return rankComp;
+
+        // Managed (External=false) single tabs come before Manual (External=true) ones
+        if (category !== Category.INTERNAL && a.isExternal !== b.isExternal)
+          return a.isExternal ? 1 : -1;
 
-        return sortByTitle(a, b);
+        return sortByStrategy(a, b, this.strategyFor(ordering, category));
       });
 
+    // Internal pages left in place keep their slot among the units; the rest fill around them
+    if (managedUnpinned.length < unpinned.length) {
+      const sorted = managedUnpinned.values();
+      managedUnpinned = [...unpinned]
+        .sort(sortByPosition)
+        .map((s) =>
+          categoryOf(s) === Category.INTERNAL ? s : sorted.next().value!,
+        );
+    }
+
     const tabsInGroupCount = new Map<number, number>();
     const tabsInGroupIdMap = new Map<number, Set<TabId>>();
 
@@ -765,11 +1521,12 @@ export class TabGroupingService {
 
     const results: GroupState[] = [];
     let idx = ignoredPinned.length;
+    const manualStrategy = this.strategyFor(ordering, Category.MANUAL);
 
     const processStates = (states: GroupState[]) => {
       for (const s of states) {
         // When sortManualGroupTabs is enabled, derive the desired tab order for external groups
-        // using the same compareTabOrder comparator used for overall tab ordering.
+        // from the manual category's sort strategy.
         const resolvedState =
           sortManualGroupTabs && s.isExternal
             ? {
@@ -778,7 +1535,7 @@ export class TabGroupingService {
                   const a = tabCache.get(idA);
                   const b = tabCache.get(idB);
                   if (!a || !b) return 0;
-                  return this.compareTabOrder(a, b, managedGroupIds);
+                  return this.compareTabsBy(a, b, manualStrategy);
                 }),
               }
             : s;
@@ -851,6 +1608,8 @@ export class TabGroupingService {
           groupId: s.groupId,
           title: s.displayName,
           collapsed: s.collapsed,
+          color: s.color,
+          isExternal: s.isExternal,
         });
       }
     }
@@ -858,6 +1617,40 @@ export class TabGroupingService {
     return { toUngroup, toGroup, targetWindowId: windowId };
   }
 
+  /**
+   * Narrows a membership plan to `tabIds` (auto mode): only those tabs are
+   * grouped or ungrouped, except that a new group also takes its ungrouped
+   * siblings, since a group needs two tabs.
+   */
+  limitMembershipPlan(
+    plan: MembershipPlan,
+    tabIds: ReadonlySet<TabId>,
+    tabs: Tab[],
+  ): MembershipPlan {
+    const tabById = new Map(tabs.map((t) => [asTabId(t.id)!, t]));
+    const toGroup = plan.toGroup.flatMap((entry) => {
+      if (!entry.tabIds.some((tid) => tabIds.has(tid))) return [];
+      const moving =
+        entry.groupId !== null
+          ? entry.tabIds.filter(
+              (tid) =>
+                tabIds.has(tid) && tabById.get(tid)?.groupId !== entry.groupId,
+            )
+          : entry.tabIds.filter((tid) => {
+              const tab = tabById.get(tid);
+              return tabIds.has(tid) || (!!tab && !isGrouped(tab));
+            });
+      if (moving.length === 0) return [];
+      if (entry.groupId === null && moving.length < 2) return [];
+      return [{ ...entry, tabIds: moving }];
+    });
+    return {
+      toUngroup: plan.toUngroup.filter((tid) => tabIds.has(tid)),
+      toGroup,
+      targetWindowId: plan.targetWindowId,
+    };
+  }
+
   mapToOrderUnits(states: GroupState[]): OrderUnit[] {
     const units: OrderUnit[] = [];
     let currentIdx = 0;
@@ -922,6 +1715,46 @@ export class TabGroupingService {
     };
   }
 
+  /**
+   * Re-expresses a desired order in terms of the tabs' live group membership,
+   * so applying it only repositions tabs and groups without regrouping them.
+   * Each live group is placed where its first tab appears in `desired`.
+   */
+  alignOrderUnits(desired: OrderUnit[], tabs: Tab[]): OrderUnit[] {
+    const tabById = new Map(tabs.map((t) => [asTabId(t.id)!, t]));
+    const desiredTabIds = desired.flatMap((u) =>
+      u.kind === "group" ? u.tabIds : [u.tabId],
+    );
+    const orderOf = new Map(desiredTabIds.map((tid, i) => [tid, i]));
+    const rank = (tid: TabId) => orderOf.get(tid) ?? Infinity;
+
+    const units: OrderUnit[] = [];
+    const seenGroups = new Set<number>();
+    let currentIdx = 0;
+    for (const tid of desiredTabIds) {
+      const tab = tabById.get(tid);
+      if (!tab) continue;
+      if (isGrouped(tab)) {
+        if (seenGroups.has(tab.groupId)) continue;
+        seenGroups.add(tab.groupId);
+        const groupTabIds = extractTabIds(
+          tabs.filter((t) => t.groupId === tab.groupId),
+        ).sort((a, b) => rank(a) - rank(b));
+        units.push({
+          kind: "group",
+          groupId: asGroupId(tab.groupId),
+          tabIds: groupTabIds,
+          targetIndex: currentIdx,
+        });
+        currentIdx += groupTabIds.length;
+      } else {
+        units.push({ kind: "solo", tabId: tid, targetIndex: currentIdx });
+        currentIdx++;
+      }
+    }
+    return units;
+  }
+
   getLiveUnits(tabs: Tab[]): OrderUnit[] {
     const live: OrderUnit[] = [];
     const seenGroups = new Set<number>();
@@ -37,8 +37,13 @@ const set = async (data) => {
 };
 
 export default async function startSyncStore(defaultState = {}) {
-  const prevState = await get();
-  await set(deepMerge(defaultState, prevState));
+  // The store owns the keys of its default state; other storage.local entries
+  // (e.g. the closed-tab archive) are neither read nor watched
+  const keys = Object.keys(defaultState);
+  const prevState = await get(keys);
+  // deepMerge writes into its target; shared defaults (e.g.
+  // DEFAULT_URL_NORMALIZATION) must not pick up the stored settings
+  await set(deepMerge(structuredClone(defaultState), prevState));
   let prevHandler;
 
   return {
@@ -47,7 +52,8 @@ export default async function startSyncStore(defaultState = {}) {
 
       const handler = async (changes, area) => {
         if (area !== "local") return;
-        const state = await get();
+        if (keys.length && !keys.some((key) => key in changes)) return;
+        const state = await get(keys);
         const prevState = {};
 
         for (const item in changes) {
@@ -59,7 +65,7 @@ export default async function startSyncStore(defaultState = {}) {
       prevHandler = handler;
       browser.storage.onChanged.addListener(handler);
     },
-    getState: get,
+    getState: () => get(keys),
     setState: set,
   };
 }
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ARCHIVE_STORAGE_KEY, DEFAULT_URL_NORMALIZATION } from "@/types";
+
+let local: Record<string, unknown> = {};
+const listeners: ((changes: object, area: string) => void)[] = [];
+
+vi.stubGlobal("chrome", {
+  storage: {
+    local: {
+      get: vi.fn(async (keys: string[] | null) =>
+        Object.fromEntries(
+          Object.entries(local).filter(([k]) => !keys || keys.includes(k)),
+        ),
+      ),
+      set: vi.fn(async (data: Record<string, unknown>) => {
+        local = { ...local, ...data };
+      }),
+    },
+    onChanged: {
+      addListener: vi.fn((fn) => listeners.push(fn)),
+      removeListener: vi.fn(),
+    },
+  },
+});
+
+const { default: startSyncStore } = await import("./startSyncStore");
+
+describe("startSyncStore", () => {
+  beforeEach(() => {
+    local = { [ARCHIVE_STORAGE_KEY]: [{ id: "1" }] };
+    listeners.length = 0;
+  });
+
+  it("only reads and watches the keys of its default state", async () => {
+    const store = await startSyncStore({
+      rules: [],
+      grouping: { byWindow: false },
+    });
+    expect(await store.getState()).toEqual({
+      rules: [],
+      grouping: { byWindow: false },
+    });
+
+    const onChange = vi.fn();
+    store.onChange(onChange);
+    for (const fn of listeners) {
+      await fn({ [ARCHIVE_STORAGE_KEY]: { newValue: [] } }, "local");
+    }
+    expect(onChange).not.toHaveBeenCalled();
+    for (const fn of listeners) {
+      await fn({ rules: { newValue: [] } }, "local");
+    }
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves the default state untouched", async () => {
+    const defaults = structuredClone(DEFAULT_URL_NORMALIZATION);
+    local.grouping = {
+      byWindow: true,
+      urlNormalization: { ...defaults, foldWww: !defaults.foldWww },
+    };
+
+    await startSyncStore({
+      grouping: {
+        byWindow: false,
+        urlNormalization: DEFAULT_URL_NORMALIZATION,
+      },
+    });
+    expect(DEFAULT_URL_NORMALIZATION).toEqual(defaults);
+    expect(local.grouping).toMatchObject({
+      urlNormalization: { foldWww: !defaults.foldWww },
+    });
+  });
+});
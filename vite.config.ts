@@ -41,6 +41,7 @@ export default defineConfig(() => ({
       input: {
         background: "src/background.ts",
         main: "index.html",
+        popup: "popup.html",
       },
       output: {
         sourcemapBaseUrl: "http://localhost",